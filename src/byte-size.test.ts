@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatBytes, parseByteSize } from '../src/byte-size';
+
+describe('byte-size.ts - Byte Sizes', () => {
+  it.each([
+    ['1024', 1024],
+    ['512B', 512],
+    ['1KB', 1024],
+    ['500MB', 500 * 1024 ** 2],
+    ['10 GB', 10 * 1024 ** 3],
+    ['1.5gb', 1.5 * 1024 ** 3],
+    ['2T', 2 * 1024 ** 4],
+  ])('should parse %j', (input, expected) => {
+    expect(parseByteSize(input)).toBe(expected);
+  });
+
+  it.each(['', 'ten GB', '10 PB', '-1GB'])('should reject %j', (input) => {
+    expect(() => parseByteSize(input)).toThrow(`Invalid size "${input}"`);
+  });
+
+  it.each([
+    [0, '0 B'],
+    [512, '512 B'],
+    [1536, '1.5 KB'],
+    [3 * 1024 ** 3, '3.0 GB'],
+  ])('should format %d bytes as %j', (bytes, expected) => {
+    expect(formatBytes(bytes)).toBe(expected);
+  });
+});
@@ -0,0 +1,25 @@
+const UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${UNITS[unit]}`;
+}
+
+/**
+ * Parses sizes like `500MB`, `10 GB` or a plain byte count. Units are
+ * binary (1 KB = 1024 bytes) to match `formatBytes`.
+ */
+export function parseByteSize(input: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([KMGT]?B?)$/i.exec(input.trim());
+  if (!match?.[1]) {
+    throw new Error(`Invalid size "${input}": expected e.g. 500MB or 10GB`);
+  }
+  const unit = (match[2] ?? '').toUpperCase().replace(/B$/, '');
+  const exponent = ['', 'K', 'M', 'G', 'T'].indexOf(unit);
+  return Math.floor(Number(match[1]) * 1024 ** exponent);
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  defaultBranch,
+  explainMisses,
+  fingerprintKey,
+  fingerprintRuns,
+  loadFingerprint,
+  mergeFingerprints,
+  missedTasks,
+  readTurboRunSummaries,
+  saveFingerprint,
+  TurboRunSummary,
+} from '../src/cache-misses';
+import { MemoryStorage } from '../src/server/storage/memory';
+
+const BASELINE: TurboRunSummary = {
+  globalCacheInputs: {
+    files: { 'turbo.json': 'g1' },
+    hashOfExternalDependencies: 'lock1',
+    environmentVariables: { configured: [], inferred: [] },
+  },
+  tasks: [
+    {
+      taskId: 'ui#build',
+      hash: 'u1',
+      inputs: { 'src/button.tsx': 'b1' },
+      hashOfExternalDependencies: 'x1',
+      cache: { status: 'HIT' },
+    },
+    {
+      taskId: 'web#build',
+      hash: 'w1',
+      inputs: { 'src/app.ts': 'a1', 'src/old.ts': 'o1' },
+      hashOfExternalDependencies: 'x1',
+      dependencies: ['ui#build'],
+      environmentVariables: { configured: ['API_URL=e1'], inferred: [] },
+      cache: { status: 'HIT' },
+    },
+  ],
+};
+
+describe('cache-misses.ts - Cache Miss Explainer', () => {
+  it('should explain misses by changed files, env vars and dependencies', () => {
+    const current = fingerprintRuns([
+      {
+        ...BASELINE,
+        tasks: [
+          {
+            taskId: 'ui#build',
+            hash: 'u2',
+            inputs: { 'src/button.tsx': 'b1' },
+            hashOfExternalDependencies: 'x2',
+            cache: { status: 'MISS' },
+          },
+          {
+            taskId: 'web#build',
+            hash: 'w2',
+            inputs: { 'src/app.ts': 'a2', 'src/new.ts': 'n1' },
+            hashOfExternalDependencies: 'x1',
+            dependencies: ['ui#build'],
+            environmentVariables: { configured: ['API_URL=e2'] },
+            cache: { status: 'MISS' },
+          },
+          {
+            taskId: 'docs#build',
+            hash: 'd1',
+            cache: { status: 'MISS' },
+          },
+        ],
+      },
+    ]);
+
+    expect(
+      explainMisses(
+        current,
+        ['ui#build', 'web#build', 'docs#build'],
+        fingerprintRuns([BASELINE]),
+        'main'
+      )
+    ).toEqual([
+      { taskId: 'ui#build', changes: ['external dependencies'] },
+      {
+        taskId: 'web#build',
+        changes: [
+          'files: src/app.ts, src/new.ts, src/old.ts',
+          'env: API_URL',
+          'dependencies: ui#build',
+        ],
+      },
+      { taskId: 'docs#build', changes: ['not in the last main run'] },
+    ]);
+  });
+
+  it('should blame global inputs and evicted artifacts', () => {
+    const baseline = fingerprintRuns([BASELINE]);
+    const current = fingerprintRuns([
+      {
+        ...BASELINE,
+        globalCacheInputs: {
+          ...BASELINE.globalCacheInputs,
+          files: { 'turbo.json': 'g2' },
+        },
+        tasks: [{ ...BASELINE.tasks[0]!, hash: 'u2' }],
+      },
+    ]);
+
+    expect(explainMisses(current, ['ui#build'], baseline, 'main')).toEqual([
+      { taskId: 'ui#build', changes: ['global inputs'] },
+    ]);
+    expect(
+      explainMisses(baseline, ['web#build'], baseline, 'main')[0]?.changes
+    ).toEqual(['same hash as on main; the artifact was not in the cache']);
+  });
+
+  it('should only count misses of cacheable tasks', () => {
+    expect(
+      missedTasks([
+        {
+          tasks: [
+            { taskId: 'web#build', hash: 'w1', cache: { status: 'MISS' } },
+            {
+              taskId: 'web#dev',
+              hash: 'w2',
+              cache: { status: 'MISS' },
+              resolvedTaskDefinition: { cache: false },
+            },
+            { taskId: 'ui#build', hash: 'u1', cache: { status: 'HIT' } },
+          ],
+        },
+      ])
+    ).toEqual(['web#build']);
+  });
+
+  it('should store fingerprints per branch and merge tasks across jobs', async () => {
+    const storage = new MemoryStorage();
+    const key = fingerprintKey('ci', 'release/1.2');
+    const [ui, web] = BASELINE.tasks;
+
+    await saveFingerprint(storage, key, fingerprintRuns([BASELINE]));
+    const merged = mergeFingerprints(
+      await loadFingerprint(storage, key),
+      fingerprintRuns([{ tasks: [{ ...web!, hash: 'w2' }] }])
+    );
+
+    expect(key).toBe('ci/fingerprints/release-1.2-bacdc8a6.json');
+    expect(merged.tasks['ui#build']?.hash).toBe(ui!.hash);
+    expect(merged.tasks['web#build']?.hash).toBe('w2');
+    expect(await loadFingerprint(storage, 'ci/fingerprints/main.json')).toBe(
+      undefined
+    );
+  });
+
+  describe('files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read turbo run summaries and skip other files', async () => {
+      writeFileSync(
+        path.join(tempDir, '2b.json'),
+        JSON.stringify({ ...BASELINE, id: '2b', turboVersion: '2.5.0' })
+      );
+      writeFileSync(path.join(tempDir, '1a.json'), JSON.stringify({ id: 1 }));
+      writeFileSync(path.join(tempDir, 'notes.txt'), 'not a summary');
+
+      const summaries = await readTurboRunSummaries(tempDir);
+
+      expect(summaries).toHaveLength(1);
+      expect(summaries[0]?.tasks.map((task) => task.taskId)).toEqual([
+        'ui#build',
+        'web#build',
+      ]);
+      expect(
+        await readTurboRunSummaries(path.join(tempDir, 'missing'))
+      ).toEqual([]);
+    });
+
+    it('should skip summaries from earlier jobs and files that do not parse', async () => {
+      const summary = JSON.stringify({ ...BASELINE, id: '3c' });
+      writeFileSync(path.join(tempDir, '1a.json'), summary);
+      writeFileSync(path.join(tempDir, '2b.json'), summary.slice(0, 40));
+      writeFileSync(path.join(tempDir, '3c.json'), summary);
+      const startedAt = Date.now() - 60_000;
+      const earlier = new Date(startedAt - 60_000);
+      utimesSync(path.join(tempDir, '1a.json'), earlier, earlier);
+      const onSkip = vi.fn();
+
+      const summaries = await readTurboRunSummaries(tempDir, {
+        since: startedAt,
+        onSkip,
+      });
+
+      expect(summaries).toHaveLength(1);
+      expect(onSkip).toHaveBeenCalledTimes(1);
+      expect(onSkip).toHaveBeenCalledWith(
+        path.join(tempDir, '2b.json'),
+        expect.any(String)
+      );
+    });
+
+    it('should read the default branch from the event payload', async () => {
+      const eventPath = path.join(tempDir, 'event.json');
+      writeFileSync(
+        eventPath,
+        JSON.stringify({ repository: { default_branch: 'trunk' } })
+      );
+
+      expect(await defaultBranch({ GITHUB_EVENT_PATH: eventPath })).toBe(
+        'trunk'
+      );
+      expect(await defaultBranch({})).toBe('main');
+    });
+  });
+});
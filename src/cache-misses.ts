@@ -0,0 +1,336 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageProvider } from './server/storage';
+import { toNamespace } from './namespaces';
+import { z } from 'zod';
+
+/** Where `turbo run --summarize` writes its run summaries. */
+export const TURBO_RUNS_DIR = '.turbo/runs';
+
+export const DEFAULT_BRANCH_FALLBACK = 'main';
+
+const MAX_LISTED_CHANGES = 5;
+
+const HashesSchema = z.record(z.string(), z.string());
+
+// Only the parts of turbo's run summary that feed into task hashes
+const TurboEnvSchema = z.object({
+  // NAME=hash entries
+  configured: z.array(z.string()).nullish(),
+  inferred: z.array(z.string()).nullish(),
+});
+
+const TurboTaskSchema = z.object({
+  taskId: z.string(),
+  hash: z.string(),
+  inputs: HashesSchema.nullish(),
+  hashOfExternalDependencies: z.string().nullish(),
+  dependencies: z.array(z.string()).nullish(),
+  environmentVariables: TurboEnvSchema.nullish(),
+  cache: z.object({ status: z.string() }).nullish(),
+  resolvedTaskDefinition: z.object({ cache: z.boolean().nullish() }).nullish(),
+});
+
+const TurboRunSummarySchema = z.object({
+  globalCacheInputs: z
+    .object({
+      files: HashesSchema.nullish(),
+      hashOfExternalDependencies: z.string().nullish(),
+      environmentVariables: TurboEnvSchema.nullish(),
+    })
+    .nullish(),
+  tasks: z.array(TurboTaskSchema),
+});
+
+export type TurboRunSummary = z.infer<typeof TurboRunSummarySchema>;
+
+const InputsFingerprintSchema = z.object({
+  /** File path to content hash */
+  files: HashesSchema,
+  /** Variable name to value hash */
+  env: HashesSchema,
+  externalDependencies: z.string(),
+});
+
+const TaskFingerprintSchema = InputsFingerprintSchema.extend({
+  hash: z.string(),
+  /** Task id to hash of each task this one depends on */
+  dependencies: HashesSchema,
+});
+
+const RunFingerprintSchema = z.object({
+  version: z.literal(1),
+  global: InputsFingerprintSchema,
+  tasks: z.record(z.string(), TaskFingerprintSchema),
+});
+
+type InputsFingerprint = z.infer<typeof InputsFingerprintSchema>;
+export type TaskFingerprint = z.infer<typeof TaskFingerprintSchema>;
+export type RunFingerprint = z.infer<typeof RunFingerprintSchema>;
+
+export interface MissExplanation {
+  taskId: string;
+  changes: string[];
+}
+
+export interface ReadRunSummariesOptions {
+  /** Leaves out summaries written before this time, in epoch milliseconds */
+  since?: number;
+  /** Called with each file that is not a run summary turbo wrote */
+  onSkip?: (file: string, reason: string) => void;
+}
+
+/**
+ * Reads every run summary turbo wrote with `--summarize`, oldest first, or
+ * none when turbo was not asked for any. Persistent runners keep summaries
+ * from earlier jobs, which `since` leaves out.
+ */
+export async function readTurboRunSummaries(
+  dir: string = TURBO_RUNS_DIR,
+  { since, onSkip }: ReadRunSummariesOptions = {}
+): Promise<TurboRunSummary[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const summaries = [];
+  // Run ids sort by creation time
+  for (const name of names.filter((name) => name.endsWith('.json')).sort()) {
+    const file = path.join(dir, name);
+    if (since !== undefined && (await fs.stat(file)).mtimeMs < since) {
+      continue;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      // Possibly still being written, or cut short by a cancelled job
+      onSkip?.(file, error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    const result = TurboRunSummarySchema.safeParse(data);
+    if (result.success) {
+      summaries.push(result.data);
+    } else {
+      onSkip?.(file, 'not a turbo run summary');
+    }
+  }
+  return summaries;
+}
+
+function parseEnv(env: z.infer<typeof TurboEnvSchema> | null | undefined) {
+  const hashes: Record<string, string> = {};
+  for (const entry of [...(env?.configured ?? []), ...(env?.inferred ?? [])]) {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      hashes[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  }
+  return hashes;
+}
+
+/** Reduces run summaries to the hashes that decide whether a task hits. */
+export function fingerprintRuns(summaries: TurboRunSummary[]): RunFingerprint {
+  const fingerprint: RunFingerprint = {
+    version: 1,
+    global: { files: {}, env: {}, externalDependencies: '' },
+    tasks: {},
+  };
+  for (const { globalCacheInputs, tasks } of summaries) {
+    if (globalCacheInputs) {
+      fingerprint.global = {
+        files: globalCacheInputs.files ?? {},
+        env: parseEnv(globalCacheInputs.environmentVariables),
+        externalDependencies:
+          globalCacheInputs.hashOfExternalDependencies ?? '',
+      };
+    }
+    const hashes = new Map(tasks.map((task) => [task.taskId, task.hash]));
+    for (const task of tasks) {
+      fingerprint.tasks[task.taskId] = {
+        hash: task.hash,
+        files: task.inputs ?? {},
+        env: parseEnv(task.environmentVariables),
+        externalDependencies: task.hashOfExternalDependencies ?? '',
+        dependencies: Object.fromEntries(
+          (task.dependencies ?? []).map((id) => [id, hashes.get(id) ?? ''])
+        ),
+      };
+    }
+  }
+  return fingerprint;
+}
+
+/** Tasks that missed the cache, leaving out those with caching turned off. */
+export function missedTasks(summaries: TurboRunSummary[]): string[] {
+  const missed = new Set<string>();
+  for (const { tasks } of summaries) {
+    for (const task of tasks) {
+      if (
+        task.cache?.status === 'MISS' &&
+        task.resolvedTaskDefinition?.cache !== false
+      ) {
+        missed.add(task.taskId);
+      }
+    }
+  }
+  return [...missed];
+}
+
+function listChanges(label: string, names: string[]): string[] {
+  if (names.length === 0) {
+    return [];
+  }
+  const listed = names.slice(0, MAX_LISTED_CHANGES).join(', ');
+  const more =
+    names.length > MAX_LISTED_CHANGES
+      ? ` and ${names.length - MAX_LISTED_CHANGES} more`
+      : '';
+  return [`${label}: ${listed}${more}`];
+}
+
+function changedKeys(
+  current: Record<string, string>,
+  baseline: Record<string, string>
+): string[] {
+  return [...new Set([...Object.keys(current), ...Object.keys(baseline)])]
+    .filter((key) => current[key] !== baseline[key])
+    .sort();
+}
+
+function diffInputs(
+  current: InputsFingerprint,
+  baseline: InputsFingerprint
+): string[] {
+  return [
+    ...listChanges('files', changedKeys(current.files, baseline.files)),
+    ...listChanges('env', changedKeys(current.env, baseline.env)),
+    ...(current.externalDependencies !== baseline.externalDependencies
+      ? ['external dependencies']
+      : []),
+  ];
+}
+
+/** What changed in the global inputs that every task hash includes. */
+export function diffGlobalInputs(
+  current: RunFingerprint,
+  baseline: RunFingerprint
+): string[] {
+  return diffInputs(current.global, baseline.global);
+}
+
+/**
+ * Explains each missed task by the inputs that differ from the baseline run,
+ * or by why there is nothing to compare against.
+ */
+export function explainMisses(
+  current: RunFingerprint,
+  missed: string[],
+  baseline: RunFingerprint | undefined,
+  baselineBranch: string
+): MissExplanation[] {
+  const globalChanged =
+    !!baseline && diffGlobalInputs(current, baseline).length > 0;
+  return missed.map((taskId) => {
+    const task = current.tasks[taskId];
+    const previous = baseline?.tasks[taskId];
+    if (!task || !previous) {
+      return { taskId, changes: [`not in the last ${baselineBranch} run`] };
+    }
+    if (task.hash === previous.hash) {
+      return {
+        taskId,
+        changes: [
+          `same hash as on ${baselineBranch}; the artifact was not in the cache`,
+        ],
+      };
+    }
+    const changes = [
+      ...diffInputs(task, previous),
+      ...listChanges(
+        'dependencies',
+        changedKeys(task.dependencies, previous.dependencies)
+      ),
+      ...(globalChanged ? ['global inputs'] : []),
+    ];
+    return {
+      taskId,
+      changes: changes.length > 0 ? changes : ['task configuration'],
+    };
+  });
+}
+
+/** Fingerprints live in the team's namespace, one per branch. */
+export function fingerprintKey(teamId: string, branch: string): string {
+  return `${teamId}/fingerprints/${toNamespace(branch)}.json`;
+}
+
+export async function loadFingerprint(
+  storage: StorageProvider,
+  key: string
+): Promise<RunFingerprint | undefined> {
+  const artifact = await storage.read(key);
+  if (!artifact) {
+    return undefined;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of artifact.body) {
+    chunks.push(chunk as Buffer);
+  }
+  const result = RunFingerprintSchema.safeParse(
+    JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  );
+  // Written by a different version; the next default branch run replaces it
+  return result.success ? result.data : undefined;
+}
+
+export async function saveFingerprint(
+  storage: StorageProvider,
+  key: string,
+  fingerprint: RunFingerprint
+): Promise<void> {
+  await storage.write(
+    key,
+    Readable.from([Buffer.from(JSON.stringify(fingerprint))]),
+    {}
+  );
+}
+
+/**
+ * Tasks from other jobs on the same branch are kept, so matrix jobs that each
+ * run part of the graph build up one baseline between them.
+ */
+export function mergeFingerprints(
+  previous: RunFingerprint | undefined,
+  current: RunFingerprint
+): RunFingerprint {
+  return { ...current, tasks: { ...previous?.tasks, ...current.tasks } };
+}
+
+interface RepositoryEvent {
+  repository?: { default_branch?: string };
+}
+
+/** The repository's default branch, from the workflow's event payload. */
+export async function defaultBranch(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string> {
+  if (!env.GITHUB_EVENT_PATH) {
+    return DEFAULT_BRANCH_FALLBACK;
+  }
+  try {
+    const event = JSON.parse(
+      await fs.readFile(env.GITHUB_EVENT_PATH, 'utf8')
+    ) as RepositoryEvent;
+    return event.repository?.default_branch ?? DEFAULT_BRANCH_FALLBACK;
+  } catch {
+    return DEFAULT_BRANCH_FALLBACK;
+  }
+}
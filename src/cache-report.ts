@@ -0,0 +1,68 @@
+import { CacheStats, summarizeCacheStats } from './cache-stats';
+import { CiAdapter, SummaryTableRow } from './ci';
+import { formatBytes } from './byte-size';
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(1)} ms`;
+}
+
+export async function reportCacheStats(
+  ci: CiAdapter,
+  stats: CacheStats
+): Promise<void> {
+  const summary = summarizeCacheStats(stats);
+
+  ci.setOutput('cache-hits', summary.hits);
+  ci.setOutput('cache-misses', summary.misses);
+  ci.setOutput('cache-uploads', summary.uploads);
+  ci.setOutput('cache-hit-rate', summary.hitRate.toFixed(4));
+  ci.setOutput('bytes-downloaded', summary.bytesDownloaded);
+  ci.setOutput('bytes-uploaded', summary.bytesUploaded);
+  ci.setOutput('evicted-artifacts', summary.evictedArtifacts);
+  ci.setOutput('evicted-bytes', summary.evictedBytes);
+  ci.setOutput('local-tier-hits', summary.localTierHits);
+  ci.setOutput('remote-tier-hits', summary.remoteTierHits);
+
+  ci.info(
+    `📊 Cache hits: ${summary.hits}, misses: ${summary.misses}, uploads: ${summary.uploads} (hit rate ${formatPercent(summary.hitRate)})`
+  );
+
+  const rows: SummaryTableRow[] = [
+    [
+      { data: 'Metric', header: true },
+      { data: 'Value', header: true },
+    ],
+    ['Cache hits', String(summary.hits)],
+    ['Cache misses', String(summary.misses)],
+    ['Hit rate', formatPercent(summary.hitRate)],
+    ['Uploads', String(summary.uploads)],
+    ['Downloaded', formatBytes(summary.bytesDownloaded)],
+    ['Uploaded', formatBytes(summary.bytesUploaded)],
+    ['Latency p50', formatMs(summary.latencyP50Ms)],
+    ['Latency p90', formatMs(summary.latencyP90Ms)],
+    ['Latency p99', formatMs(summary.latencyP99Ms)],
+  ];
+  if (summary.localTierHits + summary.remoteTierHits > 0) {
+    rows.push(
+      ['Local tier hits', String(summary.localTierHits)],
+      ['Remote tier hits', String(summary.remoteTierHits)]
+    );
+  }
+  if (summary.evictedArtifacts > 0) {
+    rows.push([
+      'Evicted',
+      `${summary.evictedArtifacts} artifacts (${formatBytes(summary.evictedBytes)})`,
+    ]);
+  }
+
+  try {
+    await ci.writeSummary('🚀 Cache Rocket', rows);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ci.debug(`Could not write job summary: ${message}`);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  CacheStatsRecorder,
+  emptyCacheStats,
+  MAX_LATENCY_SAMPLES,
+  percentile,
+  readCacheStats,
+  summarizeCacheStats,
+} from '../src/cache-stats';
+
+describe('cache-stats.ts - Cache Statistics', () => {
+  it('should compute percentiles with the nearest-rank method', () => {
+    const values = [5, 1, 4, 2, 3, 6, 7, 8, 9, 10];
+
+    expect(percentile(values, 50)).toBe(5);
+    expect(percentile(values, 90)).toBe(9);
+    expect(percentile(values, 99)).toBe(10);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('should summarize hit rate and latencies', () => {
+    const summary = summarizeCacheStats({
+      ...emptyCacheStats(),
+      hits: 3,
+      misses: 1,
+      latenciesMs: [10, 20, 30, 40],
+    });
+
+    expect(summary.hitRate).toBe(0.75);
+    expect(summary.latencyP50Ms).toBe(20);
+    expect(summary.latencyP99Ms).toBe(40);
+  });
+
+  it('should report a zero hit rate without lookups', () => {
+    expect(summarizeCacheStats(emptyCacheStats()).hitRate).toBe(0);
+  });
+
+  it('should bound the number of latency samples', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    const recorder = new CacheStatsRecorder(path.join(dir, 'stats.json'));
+
+    for (let i = 0; i < MAX_LATENCY_SAMPLES + 500; i++) {
+      recorder.recordDownload(true, 1, i);
+    }
+
+    const stats = recorder.snapshot();
+    expect(stats.hits).toBe(MAX_LATENCY_SAMPLES + 500);
+    expect(stats.latenciesMs).toHaveLength(MAX_LATENCY_SAMPLES);
+  });
+
+  it('should count hits per tier of a tiered cache', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    const recorder = new CacheStatsRecorder(path.join(dir, 'stats.json'));
+
+    recorder.recordDownload(true, 1, 1, 'local');
+    recorder.recordDownload(true, 1, 1, 'local');
+    recorder.recordDownload(true, 1, 1, 'remote');
+    recorder.recordDownload(false, 0, 1);
+
+    expect(summarizeCacheStats(recorder.snapshot())).toMatchObject({
+      hits: 3,
+      localTierHits: 2,
+      remoteTierHits: 1,
+    });
+  });
+
+  it('should write stats atomically and read them back', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    const file = path.join(dir, 'stats.json');
+    const recorder = new CacheStatsRecorder(file);
+
+    recorder.recordUpload(2048, 12);
+    recorder.flushSync();
+
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toMatchObject({
+      uploads: 1,
+      bytesUploaded: 2048,
+    });
+    expect(await readCacheStats(file)).toMatchObject({ uploads: 1 });
+  });
+
+  it('should return undefined when no stats were recorded', async () => {
+    expect(await readCacheStats('/nonexistent/stats.json')).toBeUndefined();
+  });
+});
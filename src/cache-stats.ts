@@ -0,0 +1,278 @@
+import { promises as fs, readFileSync, renameSync, writeFileSync } from 'fs';
+import { LOG_DIR } from './server-logs';
+import { StorageTier } from './server/storage';
+
+export const CACHE_STATS_FILE = `${LOG_DIR}/cache-stats.json`;
+
+// Enough samples for stable percentiles without letting the file grow unbounded
+export const MAX_LATENCY_SAMPLES = 10000;
+
+const FLUSH_INTERVAL_MS = 500;
+
+export interface DecryptionFailure {
+  key: string;
+  reason: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  uploads: number;
+  bytesDownloaded: number;
+  bytesUploaded: number;
+  evictedArtifacts: number;
+  evictedBytes: number;
+  /** Hits served from the local disk tier of a tiered cache */
+  localTierHits: number;
+  /** Hits read through from the remote tier of a tiered cache */
+  remoteTierHits: number;
+  /** Uploads still being written to storage when the stats were persisted */
+  uploadsInFlight: number;
+  /** Uploads the server waited for while shutting down */
+  uploadsDrained: number;
+  /** Uploads refused because their signature was missing or did not match */
+  rejectedUploads: number;
+  /** Uploads refused because the server was read-only */
+  refusedWrites: number;
+  /** Write-behind uploads acknowledged but not yet uploaded to storage */
+  uploadsQueued: number;
+  /** Keys of write-behind uploads that failed after every retry */
+  failedUploads: string[];
+  /** Artifacts that could not be decrypted and were served as misses */
+  decryptionFailures: DecryptionFailure[];
+  latenciesMs: number[];
+}
+
+export interface CacheStatsSummary {
+  hits: number;
+  misses: number;
+  uploads: number;
+  bytesDownloaded: number;
+  bytesUploaded: number;
+  evictedArtifacts: number;
+  evictedBytes: number;
+  localTierHits: number;
+  remoteTierHits: number;
+  hitRate: number;
+  latencyP50Ms: number;
+  latencyP90Ms: number;
+  latencyP99Ms: number;
+}
+
+export function emptyCacheStats(): CacheStats {
+  return {
+    hits: 0,
+    misses: 0,
+    uploads: 0,
+    bytesDownloaded: 0,
+    bytesUploaded: 0,
+    evictedArtifacts: 0,
+    evictedBytes: 0,
+    localTierHits: 0,
+    remoteTierHits: 0,
+    uploadsInFlight: 0,
+    uploadsDrained: 0,
+    rejectedUploads: 0,
+    refusedWrites: 0,
+    uploadsQueued: 0,
+    failedUploads: [],
+    decryptionFailures: [],
+    latenciesMs: [],
+  };
+}
+
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+  );
+  return sorted[index] ?? 0;
+}
+
+export function summarizeCacheStats(stats: CacheStats): CacheStatsSummary {
+  const lookups = stats.hits + stats.misses;
+  return {
+    hits: stats.hits,
+    misses: stats.misses,
+    uploads: stats.uploads,
+    bytesDownloaded: stats.bytesDownloaded,
+    bytesUploaded: stats.bytesUploaded,
+    evictedArtifacts: stats.evictedArtifacts,
+    evictedBytes: stats.evictedBytes,
+    localTierHits: stats.localTierHits,
+    remoteTierHits: stats.remoteTierHits,
+    hitRate: lookups === 0 ? 0 : stats.hits / lookups,
+    latencyP50Ms: percentile(stats.latenciesMs, 50),
+    latencyP90Ms: percentile(stats.latenciesMs, 90),
+    latencyP99Ms: percentile(stats.latenciesMs, 99),
+  };
+}
+
+export async function readCacheStats(
+  file: string = CACHE_STATS_FILE
+): Promise<CacheStats | undefined> {
+  try {
+    const content = await fs.readFile(file, 'utf8');
+    return { ...emptyCacheStats(), ...(JSON.parse(content) as CacheStats) };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Synchronous counterpart of readCacheStats for process startup. */
+export function readCacheStatsSync(
+  file: string = CACHE_STATS_FILE
+): CacheStats | undefined {
+  try {
+    const content = readFileSync(file, 'utf8');
+    return { ...emptyCacheStats(), ...(JSON.parse(content) as CacheStats) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Accumulates cache traffic counters in memory and periodically persists
+ * them so the post step can read them after the recording process exits.
+ */
+export class CacheStatsRecorder {
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly file: string = CACHE_STATS_FILE,
+    private readonly stats: CacheStats = emptyCacheStats()
+  ) {}
+
+  recordDownload(
+    hit: boolean,
+    bytes: number,
+    latencyMs: number,
+    tier?: StorageTier
+  ): void {
+    if (hit) {
+      this.stats.hits += 1;
+      this.stats.bytesDownloaded += bytes;
+      if (tier === 'local') {
+        this.stats.localTierHits += 1;
+      } else if (tier === 'remote') {
+        this.stats.remoteTierHits += 1;
+      }
+    } else {
+      this.stats.misses += 1;
+    }
+    this.recordLatency(latencyMs);
+  }
+
+  recordUpload(bytes: number, latencyMs: number): void {
+    this.stats.uploads += 1;
+    this.stats.bytesUploaded += bytes;
+    this.recordLatency(latencyMs);
+  }
+
+  get uploadsInFlight(): number {
+    return this.stats.uploadsInFlight;
+  }
+
+  startUpload(): void {
+    this.stats.uploadsInFlight += 1;
+    this.scheduleFlush();
+  }
+
+  finishUpload(): void {
+    this.stats.uploadsInFlight -= 1;
+    this.scheduleFlush();
+  }
+
+  recordDrainedUploads(count: number): void {
+    this.stats.uploadsDrained += count;
+  }
+
+  recordRejectedUpload(): void {
+    this.stats.rejectedUploads += 1;
+    this.scheduleFlush();
+  }
+
+  recordRefusedWrite(): void {
+    this.stats.refusedWrites += 1;
+    this.scheduleFlush();
+  }
+
+  recordEviction(artifacts: number, bytes: number): void {
+    this.stats.evictedArtifacts += artifacts;
+    this.stats.evictedBytes += bytes;
+    this.scheduleFlush();
+  }
+
+  queueUpload(): void {
+    this.stats.uploadsQueued += 1;
+    this.scheduleFlush();
+  }
+
+  settleQueuedUpload(key: string, failed: boolean): void {
+    this.stats.uploadsQueued -= 1;
+    if (failed) {
+      this.stats.failedUploads.push(key);
+    }
+    this.scheduleFlush();
+  }
+
+  recordDecryptionFailure(key: string, reason: string): void {
+    this.stats.decryptionFailures.push({ key, reason });
+    this.scheduleFlush();
+  }
+
+  snapshot(): CacheStats {
+    return {
+      ...this.stats,
+      failedUploads: [...this.stats.failedUploads],
+      decryptionFailures: [...this.stats.decryptionFailures],
+      latenciesMs: [...this.stats.latenciesMs],
+    };
+  }
+
+  /** Synchronous so it can run from a signal handler right before exit. */
+  flushSync(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const tmpFile = `${this.file}.tmp`;
+    writeFileSync(tmpFile, JSON.stringify(this.stats));
+    renameSync(tmpFile, this.file);
+  }
+
+  private recordLatency(latencyMs: number): void {
+    const samples = this.stats.latenciesMs;
+    if (samples.length < MAX_LATENCY_SAMPLES) {
+      samples.push(latencyMs);
+    } else {
+      // Reservoir sampling keeps the percentiles representative of the whole run
+      const slot = Math.floor(
+        Math.random() *
+          (this.stats.hits + this.stats.misses + this.stats.uploads)
+      );
+      if (slot < MAX_LATENCY_SAMPLES) {
+        samples[slot] = latencyMs;
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      try {
+        this.flushSync();
+      } catch {
+        // Retried on the next recorded request and on shutdown
+      }
+    }, FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+}
@@ -0,0 +1,33 @@
+export interface AnnotationProperties {
+  title?: string;
+}
+
+export type SummaryTableCell = string | { data: string; header?: boolean };
+
+export type SummaryTableRow = SummaryTableCell[];
+
+/**
+ * The parts of a CI system the start and post steps rely on: reading
+ * inputs, handing values to later steps, carrying state from start to stop,
+ * and logging.
+ */
+export interface CiAdapter {
+  readonly name: string;
+  getInput(name: string): string;
+  /** Keeps the value out of any later log output, where supported */
+  setSecret(secret: string): void;
+  /** Makes the variable available to later steps of the job */
+  exportVariable(name: string, value: string): void;
+  setOutput(name: string, value: string | number): void;
+  /** Persists a value for the stop step to read with getState */
+  saveState(name: string, value: string): void;
+  getState(name: string): string;
+  debug(message: string): void;
+  info(message: string): void;
+  warning(message: string, properties?: AnnotationProperties): void;
+  error(message: string, properties?: AnnotationProperties): void;
+  setFailed(message: string): void;
+  startGroup(name: string): void;
+  endGroup(): void;
+  writeSummary(heading: string, rows: SummaryTableRow[]): Promise<void>;
+}
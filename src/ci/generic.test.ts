@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { formatDotenv, GenericCiAdapter, inputEnvName } from './generic';
+
+describe('ci/generic.ts - Generic CI Adapter', () => {
+  let tempDir: string;
+  let stateFile: string;
+  let envFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    stateFile = path.join(tempDir, 'state.json');
+    envFile = path.join(tempDir, 'cache.env');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should prefer flags over CACHE_ROCKET_* variables', () => {
+    const ci = new GenericCiAdapter({
+      inputs: { 'team-id': 'flag' },
+      env: {
+        CACHE_ROCKET_TEAM_ID: 'env',
+        CACHE_ROCKET_STORAGE_PROVIDER: ' s3 ',
+      },
+      stateFile,
+      envFile,
+    });
+
+    expect(inputEnvName('storage-provider')).toBe(
+      'CACHE_ROCKET_STORAGE_PROVIDER'
+    );
+    expect(ci.getInput('team-id')).toBe('flag');
+    expect(ci.getInput('storage-provider')).toBe('s3');
+    expect(ci.getInput('port')).toBe('');
+  });
+
+  it('should quote dotenv values only when needed', () => {
+    expect(
+      formatDotenv({ TURBO_API: 'http://127.0.0.1:3000', NOTE: 'a "b" $c' })
+    ).toBe('TURBO_API=http://127.0.0.1:3000\nNOTE="a \\"b\\" \\$c"\n');
+  });
+
+  it('should carry state and exports to a later adapter', () => {
+    const start = new GenericCiAdapter({ stateFile, envFile, env: {} });
+    start.saveState('serverPid', '1234');
+    start.setOutput('port', 3000);
+    start.exportVariable('TURBO_TEAM', 'ci');
+
+    expect(readFileSync(envFile, 'utf8')).toBe('TURBO_TEAM=ci\n');
+
+    const stop = new GenericCiAdapter({ stateFile, envFile, env: {} });
+    expect(stop.getState('serverPid')).toBe('1234');
+    expect(stop.getOutput('port')).toBe('3000');
+    expect(stop.getExports()).toEqual({ TURBO_TEAM: 'ci' });
+
+    stop.reset();
+    expect(
+      new GenericCiAdapter({ stateFile, envFile }).getState('serverPid')
+    ).toBe('');
+  });
+
+  it('should record failures and print the summary as plain text', async () => {
+    const lines: string[] = [];
+    const ci = new GenericCiAdapter({
+      stateFile,
+      envFile,
+      stdout: (line) => lines.push(line),
+      stderr: (line) => lines.push(line),
+    });
+
+    await ci.writeSummary('Stats', [
+      [
+        { data: 'Metric', header: true },
+        { data: 'Value', header: true },
+      ],
+      ['Hits', '3'],
+    ]);
+    ci.setFailed('boom');
+
+    expect(lines).toEqual([
+      'Stats',
+      '  Metric  Value',
+      '  Hits    3',
+      'error: boom',
+    ]);
+    expect(ci.failed).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+import { CiAdapter, SummaryTableRow } from './adapter';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export const DEFAULT_STATE_FILE = '.cache-rocket/state.json';
+export const DEFAULT_ENV_FILE = '.cache-rocket/cache.env';
+
+export interface GenericCiOptions {
+  /** Inputs given on the command line; CACHE_ROCKET_* variables fill gaps */
+  inputs?: Record<string, string>;
+  stateFile?: string;
+  envFile?: string;
+  env?: NodeJS.ProcessEnv;
+  stdout?: (line: string) => void;
+  stderr?: (line: string) => void;
+}
+
+export interface GenericCiState {
+  state: Record<string, string>;
+  outputs: Record<string, string>;
+  exports: Record<string, string>;
+}
+
+/** `storage-provider` is read from CACHE_ROCKET_STORAGE_PROVIDER. */
+export function inputEnvName(name: string): string {
+  return `CACHE_ROCKET_${name.replace(/-/g, '_').toUpperCase()}`;
+}
+
+function quoteDotenv(value: string): string {
+  return /^[\w@%+=:,./-]*$/.test(value)
+    ? value
+    : `"${value.replace(/[\\"$`]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+}
+
+export function formatDotenv(variables: Record<string, string>): string {
+  return Object.entries(variables)
+    .map(([name, value]) => `${name}=${quoteDotenv(value)}\n`)
+    .join('');
+}
+
+export function readGenericCiState(file: string): GenericCiState {
+  try {
+    return {
+      state: {},
+      outputs: {},
+      exports: {},
+      ...(JSON.parse(readFileSync(file, 'utf8')) as Partial<GenericCiState>),
+    };
+  } catch {
+    return { state: {}, outputs: {}, exports: {} };
+  }
+}
+
+function writeFileCreatingDir(file: string, content: string): void {
+  mkdirSync(path.dirname(file), { recursive: true });
+  // The token ends up in both files
+  writeFileSync(file, content, { mode: 0o600 });
+}
+
+/**
+ * Runs the steps in any other CI system. Exports land in a dotenv file for
+ * later pipeline steps to source, and state and outputs in a JSON file that
+ * `cache-rocket stop` and `status` read back.
+ */
+export class GenericCiAdapter implements CiAdapter {
+  readonly name = 'generic';
+  readonly stateFile: string;
+  readonly envFile: string;
+  /** Set by setFailed; the CLI turns it into the exit code */
+  failed = false;
+
+  private readonly inputs: Record<string, string>;
+  private readonly env: NodeJS.ProcessEnv;
+  private readonly stdout: (line: string) => void;
+  private readonly stderr: (line: string) => void;
+  private readonly data: GenericCiState;
+
+  constructor(options: GenericCiOptions = {}) {
+    this.inputs = options.inputs ?? {};
+    this.stateFile = options.stateFile ?? DEFAULT_STATE_FILE;
+    this.envFile = options.envFile ?? DEFAULT_ENV_FILE;
+    this.env = options.env ?? process.env;
+    this.stdout =
+      options.stdout ?? ((line) => process.stdout.write(`${line}\n`));
+    this.stderr =
+      options.stderr ?? ((line) => process.stderr.write(`${line}\n`));
+    this.data = readGenericCiState(this.stateFile);
+  }
+
+  getInput(name: string): string {
+    return (this.inputs[name] ?? this.env[inputEnvName(name)] ?? '').trim();
+  }
+
+  setSecret(): void {
+    // Generic CI systems have no log masking to hook into
+  }
+
+  exportVariable(name: string, value: string): void {
+    this.env[name] = value;
+    this.data.exports[name] = value;
+    writeFileCreatingDir(this.envFile, formatDotenv(this.data.exports));
+    this.persist();
+  }
+
+  setOutput(name: string, value: string | number): void {
+    this.data.outputs[name] = String(value);
+    this.persist();
+  }
+
+  saveState(name: string, value: string): void {
+    this.data.state[name] = value;
+    this.persist();
+  }
+
+  getState(name: string): string {
+    return this.data.state[name] ?? '';
+  }
+
+  getOutput(name: string): string {
+    return this.data.outputs[name] ?? '';
+  }
+
+  getExports(): Record<string, string> {
+    return { ...this.data.exports };
+  }
+
+  /** Forgets everything a previous start recorded. */
+  reset(): void {
+    rmSync(this.stateFile, { force: true });
+    rmSync(this.envFile, { force: true });
+    this.data.state = {};
+    this.data.outputs = {};
+    this.data.exports = {};
+  }
+
+  debug(message: string): void {
+    if (this.env.CACHE_ROCKET_DEBUG) {
+      this.stderr(`debug: ${message}`);
+    }
+  }
+
+  info(message: string): void {
+    this.stdout(message);
+  }
+
+  warning(message: string): void {
+    this.stderr(`warning: ${message}`);
+  }
+
+  error(message: string): void {
+    this.stderr(`error: ${message}`);
+  }
+
+  setFailed(message: string): void {
+    this.stderr(`error: ${message}`);
+    this.failed = true;
+  }
+
+  startGroup(name: string): void {
+    this.stdout(`── ${name}`);
+  }
+
+  endGroup(): void {
+    // Groups are only a visual marker outside GitHub Actions
+  }
+
+  async writeSummary(heading: string, rows: SummaryTableRow[]): Promise<void> {
+    const cells = rows.map((row) =>
+      row.map((cell) => (typeof cell === 'string' ? cell : cell.data))
+    );
+    const width = Math.max(...cells.map((row) => row[0]?.length ?? 0));
+    this.stdout(heading);
+    for (const [label = '', ...values] of cells) {
+      this.stdout(`  ${label.padEnd(width)}  ${values.join('  ')}`);
+    }
+  }
+
+  private persist(): void {
+    writeFileCreatingDir(
+      this.stateFile,
+      `${JSON.stringify(this.data, null, 2)}\n`
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import * as core from '@actions/core';
+import { CiAdapter } from './adapter';
+
+/** Runs the steps as a GitHub Action through the @actions/core toolkit. */
+export const githubActions: CiAdapter = {
+  name: 'github-actions',
+  getInput: (name) => core.getInput(name),
+  setSecret: (secret) => core.setSecret(secret),
+  exportVariable: (name, value) => core.exportVariable(name, value),
+  setOutput: (name, value) => core.setOutput(name, value),
+  saveState: (name, value) => core.saveState(name, value),
+  getState: (name) => core.getState(name),
+  debug: (message) => core.debug(message),
+  info: (message) => core.info(message),
+  warning: (...args) => core.warning(...args),
+  error: (...args) => core.error(...args),
+  setFailed: (message) => core.setFailed(message),
+  startGroup: (name) => core.startGroup(name),
+  endGroup: () => core.endGroup(),
+  writeSummary: async (heading, rows) => {
+    await core.summary.addHeading(heading, 3).addTable(rows).write();
+  },
+};
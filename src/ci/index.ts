@@ -0,0 +1,8 @@
+export type {
+  AnnotationProperties,
+  CiAdapter,
+  SummaryTableCell,
+  SummaryTableRow,
+} from './adapter';
+export { githubActions } from './github';
+export { GenericCiAdapter } from './generic';
@@ -1,10 +1,36 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { promises as fs } from 'fs';
 import * as core from '@actions/core';
+import {
+  fingerprintRuns,
+  loadFingerprint,
+  readTurboRunSummaries,
+  saveFingerprint,
+  TurboRunSummary,
+} from '../src/cache-misses';
 import { cleanupCacheServer } from '../src/cleanup-server';
+import { EncryptedStorage } from '../src/server/storage/encrypted';
+import { LocalStorage } from '../src/server/storage/local';
+import { pruneArtifacts } from '../src/prune';
+import { readSupervisorState } from '../src/supervisor/state';
 
 // Mock all external dependencies
 vi.mock('@actions/core');
+vi.mock('../src/server/storage/local');
+vi.mock('../src/prune', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/prune')>()),
+  pruneArtifacts: vi.fn(),
+}));
+vi.mock('../src/supervisor/state', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/supervisor/state')>()),
+  readSupervisorState: vi.fn(),
+}));
+vi.mock('../src/cache-misses', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/cache-misses')>()),
+  readTurboRunSummaries: vi.fn(),
+  loadFingerprint: vi.fn(),
+  saveFingerprint: vi.fn(),
+}));
 vi.mock('fs', () => ({
   promises: {
     readFile: vi.fn(),
@@ -17,6 +43,17 @@ const mockKill = vi.fn();
 
 const mockCore = vi.mocked(core);
 const mockFs = vi.mocked(fs);
+const mockLocalStorage = vi.mocked(LocalStorage);
+const mockPruneArtifacts = vi.mocked(pruneArtifacts);
+const mockReadSupervisorState = vi.mocked(readSupervisorState);
+const mockReadTurboRunSummaries = vi.mocked(readTurboRunSummaries);
+const mockLoadFingerprint = vi.mocked(loadFingerprint);
+const mockSaveFingerprint = vi.mocked(saveFingerprint);
+const mockSummary = {
+  addHeading: vi.fn(),
+  addTable: vi.fn(),
+  write: vi.fn(),
+};
 
 describe('post.ts - Cleanup Action', () => {
   beforeEach(() => {
@@ -26,15 +63,38 @@ describe('post.ts - Cleanup Action', () => {
     process.kill = mockKill as any;
 
     // Set up default mocks
-    mockCore.getState = vi.fn().mockReturnValue('12345');
+    mockCore.getState = vi
+      .fn()
+      .mockImplementation((name: string) =>
+        name === 'serverPid' ? '12345' : ''
+      );
+    mockCore.getInput = vi.fn().mockReturnValue('');
     mockCore.info = vi.fn();
     mockCore.debug = vi.fn();
     mockCore.setFailed = vi.fn();
     mockCore.startGroup = vi.fn();
     mockCore.endGroup = vi.fn();
+    mockCore.warning = vi.fn();
+    mockCore.error = vi.fn();
+    mockCore.setOutput = vi.fn();
+
+    mockSummary.addHeading.mockReturnValue(mockSummary);
+    mockSummary.addTable.mockReturnValue(mockSummary);
+    mockSummary.write.mockResolvedValue(mockSummary);
+    Object.assign(mockCore, { summary: mockSummary });
 
     mockFs.readFile = vi.fn().mockResolvedValue('');
-    mockKill.mockReturnValue(true);
+    // Signals succeed and the process is gone by the first liveness check
+    mockKill.mockImplementation((_pid: number, signal?: string | number) => {
+      if (signal === 0) {
+        throw new Error('ESRCH');
+      }
+      return true;
+    });
+    mockReadSupervisorState.mockResolvedValue(undefined);
+    mockReadTurboRunSummaries.mockResolvedValue([]);
+    mockLoadFingerprint.mockResolvedValue(undefined);
+    mockSaveFingerprint.mockResolvedValue(undefined);
   });
 
   afterEach(() => {
@@ -59,6 +119,22 @@ describe('post.ts - Cleanup Action', () => {
     expect(mockKill).not.toHaveBeenCalled();
   });
 
+  it('should report a disabled cache instead of stopping a server', async () => {
+    mockCore.getState.mockImplementation((name: string) =>
+      name === 'cacheDisabled' ? 'true' : ''
+    );
+    mockFs.readFile.mockResolvedValue('Error: listen EADDRINUSE');
+
+    await cleanupCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '⚠️ Remote cache was disabled for this run because the server failed to start'
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('  Error: listen EADDRINUSE');
+    expect(mockKill).not.toHaveBeenCalled();
+    expect(mockCore.setOutput).not.toHaveBeenCalled();
+  });
+
   it('should terminate server process with SIGTERM', async () => {
     await cleanupCacheServer();
 
@@ -68,6 +144,320 @@ describe('post.ts - Cleanup Action', () => {
     );
   });
 
+  describe('shutdown', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should signal the server directly without a supervisor', async () => {
+      await cleanupCacheServer();
+
+      expect(mockKill.mock.calls).toEqual([
+        [12345, 'SIGTERM'],
+        [12345, 0],
+      ]);
+    });
+
+    it('should wait for the server to exit before reporting it stopped', async () => {
+      vi.useFakeTimers();
+      let alive = 3;
+      mockKill.mockImplementation((_pid: number, signal?: string | number) => {
+        if (signal === 0 && --alive < 0) {
+          throw new Error('ESRCH');
+        }
+        return true;
+      });
+
+      const cleanup = cleanupCacheServer();
+      await vi.runAllTimersAsync();
+      await cleanup;
+
+      expect(mockKill).toHaveBeenCalledTimes(5);
+      expect(mockCore.warning).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '✅ Turborepo Remote Cache Server stopped (PID: 12345)'
+      );
+    });
+
+    it('should escalate to SIGKILL after shutdown-timeout', async () => {
+      vi.useFakeTimers();
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({ serverPid: '12345', shutdownTimeout: '3' })[name] ?? ''
+      );
+      let killed = false;
+      mockKill.mockImplementation((_pid: number, signal?: string | number) => {
+        if (signal === 'SIGKILL') {
+          killed = true;
+        } else if (signal === 0 && killed) {
+          throw new Error('ESRCH');
+        }
+        return true;
+      });
+
+      const cleanup = cleanupCacheServer();
+      await vi.runAllTimersAsync();
+      await cleanup;
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'The cache server did not exit within 3 seconds of SIGTERM, sending SIGKILL',
+        { title: 'Cache Rocket' }
+      );
+      expect(mockKill).toHaveBeenCalledWith(12345, 'SIGKILL');
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '✅ Turborepo Remote Cache Server killed (PID: 12345)'
+      );
+    });
+
+    it('should report a server that survives SIGKILL', async () => {
+      vi.useFakeTimers();
+      mockKill.mockReturnValue(true);
+
+      const cleanup = cleanupCacheServer();
+      await vi.runAllTimersAsync();
+      await cleanup;
+
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '❌ Failed to stop server process 12345: still running after SIGKILL'
+      );
+    });
+
+    it.each([
+      [
+        { uploadsInFlight: 2 },
+        'warning',
+        '2 artifact upload(s) were still in flight when the server stopped and were lost',
+      ],
+      [
+        { uploadsDrained: 3 },
+        'info',
+        '📤 Waited for 3 in-flight upload(s) to finish before shutdown',
+      ],
+    ] as const)(
+      'should report pending uploads %o',
+      async (stats, level, message) => {
+        mockFs.readFile.mockImplementation(async (file: any) =>
+          file === 'logs/cache-stats.json' ? JSON.stringify(stats) : ''
+        );
+
+        await cleanupCacheServer();
+
+        if (level === 'warning') {
+          expect(mockCore.warning).toHaveBeenCalledWith(message, {
+            title: 'Cache Rocket',
+          });
+        } else {
+          expect(mockCore.info).toHaveBeenCalledWith(message);
+        }
+      }
+    );
+  });
+
+  it('should report uploads rejected for their signature', async () => {
+    mockFs.readFile.mockImplementation(async (file: any) =>
+      file === 'logs/cache-stats.json'
+        ? JSON.stringify({ rejectedUploads: 2 })
+        : ''
+    );
+
+    await cleanupCacheServer();
+
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      '2 artifact upload(s) were rejected because their signature was missing or did not match',
+      { title: 'Cache Rocket' }
+    );
+  });
+
+  describe('async uploads', () => {
+    beforeEach(() => {
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            supervisorPid: '12344',
+            asyncUploads: 'true',
+            uploadDrainTimeout: '1',
+          })[name] ?? ''
+      );
+    });
+
+    it('should wait for queued uploads before stopping the server', async () => {
+      const queued = [2, 0];
+      mockFs.readFile.mockImplementation(async (file: any) =>
+        file === 'logs/cache-stats.json'
+          ? JSON.stringify({ uploadsQueued: queued.shift() ?? 0 })
+          : ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '⏳ Waiting for 2 queued upload(s) to reach storage'
+      );
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '📤 All queued uploads reached storage'
+      );
+      const drained = vi
+        .mocked(mockCore.info)
+        .mock.calls.findIndex(([message]) => message.startsWith('📤 All'));
+      const stopped = vi
+        .mocked(mockCore.info)
+        .mock.calls.findIndex(([message]) => message.startsWith('✅'));
+      expect(drained).toBeLessThan(stopped);
+    });
+
+    it('should give up waiting after the drain timeout and report lost uploads', async () => {
+      mockFs.readFile.mockImplementation(async (file: any) =>
+        file === 'logs/cache-stats.json'
+          ? JSON.stringify({ uploadsQueued: 3 })
+          : ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        '3 queued upload(s) did not finish within 1 seconds',
+        { title: 'Cache Rocket' }
+      );
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        '3 queued upload(s) were still waiting when the server stopped and were lost',
+        { title: 'Cache Rocket' }
+      );
+    });
+
+    it('should list uploads that failed after retrying', async () => {
+      mockFs.readFile.mockImplementation(async (file: any) =>
+        file === 'logs/cache-stats.json'
+          ? JSON.stringify({ failedUploads: ['ci/abc', 'ci/def'] })
+          : ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        '2 queued upload(s) failed after retrying and are not in storage',
+        { title: 'Cache Rocket' }
+      );
+      expect(mockCore.info).toHaveBeenCalledWith('   ci/abc');
+      expect(mockCore.info).toHaveBeenCalledWith('   ci/def');
+    });
+  });
+
+  it('should report how many writes a read-only cache refused', async () => {
+    mockCore.getState.mockImplementation(
+      (name: string) => ({ serverPid: '12345', readOnly: 'true' })[name] ?? ''
+    );
+    mockFs.readFile.mockImplementation(async (file: any) =>
+      file === 'logs/cache-stats.json'
+        ? JSON.stringify({ refusedWrites: 4 })
+        : ''
+    );
+
+    await cleanupCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '🔒 The cache was read-only and refused 4 write(s)'
+    );
+  });
+
+  it('should report writes refused for the read-only token', async () => {
+    mockFs.readFile.mockImplementation(async (file: any) =>
+      file === 'logs/cache-stats.json'
+        ? JSON.stringify({ refusedWrites: 2 })
+        : ''
+    );
+
+    await cleanupCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '🔒 Refused 2 write(s) made with the read-only token'
+    );
+  });
+
+  it('should report artifacts that could not be decrypted as an error', async () => {
+    mockFs.readFile.mockImplementation(async (file: any) =>
+      file === 'logs/cache-stats.json'
+        ? JSON.stringify({
+            decryptionFailures: [
+              { key: 'ci/abc', reason: 'it is not encrypted' },
+            ],
+          })
+        : ''
+    );
+
+    await cleanupCacheServer();
+
+    expect(mockCore.error).toHaveBeenCalledWith(
+      '1 artifact(s) could not be decrypted and were treated as cache misses; check that encryption-key lists every key still in use',
+      { title: 'Cache Rocket' }
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '   ci/abc: it is not encrypted'
+    );
+  });
+
+  describe('supervisor', () => {
+    beforeEach(() => {
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({ serverPid: '12345', supervisorPid: '12300' })[name] ?? ''
+      );
+    });
+
+    it('should stop the supervisor before the server process group', async () => {
+      await cleanupCacheServer();
+
+      expect(mockKill.mock.calls).toEqual([
+        [12300, 'SIGTERM'],
+        [12300, 0],
+        [-12300, 'SIGTERM'],
+        [12345, 0],
+      ]);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '✅ Supervisor stopped (PID: 12300)'
+      );
+    });
+
+    it('should stop the server the supervisor last started', async () => {
+      mockReadSupervisorState.mockResolvedValue({
+        serverPid: 12399,
+        restarts: [],
+      });
+
+      await cleanupCacheServer();
+
+      expect(mockKill).toHaveBeenCalledWith(12399, 0);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '✅ Turborepo Remote Cache Server stopped (PID: 12399)'
+      );
+      expect(mockCore.warning).not.toHaveBeenCalled();
+    });
+
+    it('should report the restart history', async () => {
+      const time = Date.UTC(2024, 0, 1, 12, 30, 45);
+      mockReadSupervisorState.mockResolvedValue({
+        serverPid: 12399,
+        restarts: [
+          { time, code: 1, signal: null },
+          { time: time + 1000, code: null, signal: 'SIGKILL' },
+        ],
+      });
+
+      await cleanupCacheServer();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'The cache server crashed and was restarted 2 time(s) during this job',
+        { title: 'Cache Rocket' }
+      );
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '   2024-01-01T12:30:45.000Z: exited with code 1'
+      );
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '   2024-01-01T12:30:46.000Z: exited with signal SIGKILL'
+      );
+    });
+  });
+
   it('should handle process kill failure gracefully', async () => {
     mockKill.mockImplementation(() => {
       throw new Error('Process not found');
@@ -188,4 +578,504 @@ describe('post.ts - Cleanup Action', () => {
       '  Log content after kill failure'
     );
   });
+
+  it('should pretty-print pino JSON lines', async () => {
+    const time = Date.UTC(2024, 0, 1, 12, 30, 45, 123);
+    mockFs.readFile
+      .mockResolvedValueOnce(
+        [
+          JSON.stringify({ level: 30, time, msg: 'Server listening' }),
+          JSON.stringify({
+            level: 30,
+            time,
+            msg: 'request completed',
+            req: { method: 'GET', url: '/v8/artifacts/abc' },
+            res: { statusCode: 404 },
+            responseTime: 1.25,
+          }),
+          '',
+        ].join('\n')
+      )
+      .mockResolvedValueOnce('');
+
+    await cleanupCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '  [12:30:45.123] INFO: Server listening\n' +
+        '  [12:30:45.123] INFO: request completed (GET /v8/artifacts/abc 404 1.3ms)'
+    );
+  });
+
+  it('should surface warnings and errors as annotations', async () => {
+    mockFs.readFile
+      .mockResolvedValueOnce(
+        [
+          JSON.stringify({ level: 40, msg: 'Slow bucket response' }),
+          JSON.stringify({
+            level: 50,
+            err: { message: 'Access Denied', stack: 'Error: Access Denied' },
+          }),
+          JSON.stringify({ level: 30, msg: 'Just info' }),
+        ].join('\n')
+      )
+      .mockResolvedValueOnce('');
+
+    await cleanupCacheServer();
+
+    expect(mockCore.warning).toHaveBeenCalledTimes(1);
+    expect(mockCore.warning).toHaveBeenCalledWith('Slow bucket response', {
+      title: 'turborepo-remote-cache',
+    });
+    expect(mockCore.error).toHaveBeenCalledTimes(1);
+    expect(mockCore.error).toHaveBeenCalledWith('Access Denied', {
+      title: 'turborepo-remote-cache',
+    });
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '  WARN: Slow bucket response\n' +
+        '  ERROR: Access Denied\n' +
+        '  Error: Access Denied\n' +
+        '  INFO: Just info'
+    );
+  });
+
+  it('should only display the tail of oversized log files', async () => {
+    const line = JSON.stringify({ level: 30, msg: 'x'.repeat(100) });
+    mockFs.readFile
+      .mockResolvedValueOnce(Array(2000).fill(line).join('\n'))
+      .mockResolvedValueOnce('');
+
+    await cleanupCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^  … \d+ earlier bytes truncated$/)
+    );
+    const output = mockCore.info.mock.calls
+      .map(([message]) => message)
+      .find((message) => message.includes('INFO: x'));
+    expect(Buffer.byteLength(output!)).toBeLessThan(70 * 1024);
+  });
+
+  it('should cap the number of annotations', async () => {
+    const line = JSON.stringify({ level: 50, msg: 'Upload failed' });
+    mockFs.readFile
+      .mockResolvedValueOnce(Array(50).fill(line).join('\n'))
+      .mockResolvedValueOnce('');
+
+    await cleanupCacheServer();
+
+    expect(mockCore.error).toHaveBeenCalledTimes(10);
+  });
+
+  describe('cache stats report', () => {
+    const stats = {
+      hits: 3,
+      misses: 1,
+      uploads: 2,
+      bytesDownloaded: 3 * 1024 * 1024,
+      bytesUploaded: 512,
+      latenciesMs: [10, 20, 30, 40],
+    };
+
+    beforeEach(() => {
+      mockFs.readFile.mockImplementation(async (file: any) =>
+        file === 'logs/cache-stats.json' ? JSON.stringify(stats) : ''
+      );
+    });
+
+    it('should expose the stats as action outputs', async () => {
+      await cleanupCacheServer();
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('cache-hits', 3);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('cache-misses', 1);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('cache-uploads', 2);
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'cache-hit-rate',
+        '0.7500'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'bytes-downloaded',
+        3 * 1024 * 1024
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('bytes-uploaded', 512);
+    });
+
+    it('should render the stats as a job summary table', async () => {
+      await cleanupCacheServer();
+
+      expect(mockSummary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          ['Cache hits', '3'],
+          ['Cache misses', '1'],
+          ['Hit rate', '75.0%'],
+          ['Downloaded', '3.0 MB'],
+          ['Uploaded', '512 B'],
+          ['Latency p50', '20.0 ms'],
+        ])
+      );
+      expect(mockSummary.write).toHaveBeenCalled();
+    });
+
+    it('should not fail when the job summary cannot be written', async () => {
+      mockSummary.write.mockRejectedValue(new Error('No summary file'));
+
+      await cleanupCacheServer();
+
+      expect(mockCore.debug).toHaveBeenCalledWith(
+        'Could not write job summary: No summary file'
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should skip the report when no stats were recorded', async () => {
+      mockFs.readFile.mockRejectedValue(new Error('ENOENT'));
+
+      await cleanupCacheServer();
+
+      expect(mockCore.setOutput).not.toHaveBeenCalled();
+      expect(mockSummary.write).not.toHaveBeenCalled();
+    });
+
+    it('should evict local artifacts in the post step and report them', async () => {
+      const evict = vi.fn().mockResolvedValue({ artifacts: 4, bytes: 2048 });
+      mockLocalStorage.mockImplementation(
+        () => ({ evict }) as unknown as LocalStorage
+      );
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            storagePath: '/runner/cache',
+            maxCacheSize: '1024',
+          })[name] ?? ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockLocalStorage).toHaveBeenCalledWith('/runner/cache');
+      expect(evict).toHaveBeenCalledWith(1024);
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '🧹 Evicted 4 artifacts (2.0 KB) from /runner/cache'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('evicted-artifacts', 4);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('evicted-bytes', 2048);
+      expect(mockSummary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([['Evicted', '4 artifacts (2.0 KB)']])
+      );
+    });
+
+    it('should not evict without a local cache size limit', async () => {
+      mockCore.getState.mockImplementation((name: string) =>
+        name === 'storageProvider' ? 'local' : name === 'serverPid' ? '1' : ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockLocalStorage).not.toHaveBeenCalled();
+    });
+
+    it('should warn instead of failing when eviction fails', async () => {
+      mockLocalStorage.mockImplementation(
+        () =>
+          ({
+            evict: vi.fn().mockRejectedValue(new Error('EACCES')),
+          }) as unknown as LocalStorage
+      );
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            storagePath: '/runner/cache',
+            maxCacheSize: '1024',
+          })[name] ?? ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not evict artifacts from /runner/cache: EACCES'
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pruning', () => {
+    function pruneState(overrides: Record<string, string> = {}) {
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            storagePath: '/runner/cache',
+            teamId: 'ci',
+            prune: 'true',
+            retentionDays: '14',
+            ...overrides,
+          })[name] ?? ''
+      );
+    }
+
+    beforeEach(() => {
+      mockPruneArtifacts.mockResolvedValue({ artifacts: 3, bytes: 3072 });
+    });
+
+    it('should prune stale artifacts under the team and report them', async () => {
+      pruneState();
+
+      await cleanupCacheServer();
+
+      expect(mockPruneArtifacts).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          prefix: 'ci/',
+          retentionDays: 14,
+          dryRun: false,
+        })
+      );
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '🧹 Pruned 3 artifacts (3.0 KB) unused for 14 days from ci/'
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('pruned-artifacts', 3);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('pruned-bytes', 3072);
+    });
+
+    it('should only report in a dry run', async () => {
+      pruneState({ prune: 'dry-run' });
+
+      await cleanupCacheServer();
+
+      expect(mockPruneArtifacts).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ dryRun: true })
+      );
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '🧹 Dry run: would prune 3 artifacts (3.0 KB) unused for 14 days from ci/'
+      );
+    });
+
+    it('should not prune when disabled or read-only', async () => {
+      pruneState({ prune: 'false' });
+      await cleanupCacheServer();
+
+      pruneState({ readOnly: 'true' });
+      await cleanupCacheServer();
+
+      expect(mockPruneArtifacts).not.toHaveBeenCalled();
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '🔒 Skipped pruning because the cache was read-only'
+      );
+    });
+
+    it('should warn instead of failing when pruning fails', async () => {
+      pruneState();
+      mockPruneArtifacts.mockRejectedValue(new Error('AccessDenied'));
+
+      await cleanupCacheServer();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not prune stale artifacts: AccessDenied'
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cache miss explanations', () => {
+    function runSummary(
+      status: string,
+      files: Record<string, string>
+    ): TurboRunSummary {
+      return {
+        globalCacheInputs: { files: { 'turbo.json': 'g1' } },
+        tasks: [
+          {
+            taskId: 'web#build',
+            hash: status === 'HIT' ? 'h1' : 'h2',
+            inputs: files,
+            cache: { status },
+          },
+        ],
+      };
+    }
+
+    beforeEach(() => {
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            storagePath: '/runner/cache',
+            teamId: 'ci',
+          })[name] ?? ''
+      );
+      vi.stubEnv('GITHUB_EVENT_PATH', '');
+      vi.stubEnv('GITHUB_HEAD_REF', '');
+      vi.stubEnv('GITHUB_REF', 'refs/heads/feature/login');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should list what changed since the default branch for missed tasks', async () => {
+      mockLoadFingerprint.mockResolvedValue(
+        fingerprintRuns([runSummary('HIT', { 'src/app.ts': 'a1' })])
+      );
+      mockReadTurboRunSummaries.mockResolvedValue([
+        runSummary('MISS', { 'src/app.ts': 'a2' }),
+      ]);
+
+      await cleanupCacheServer();
+
+      expect(mockLoadFingerprint).toHaveBeenCalledWith(
+        expect.anything(),
+        'ci/fingerprints/main.json'
+      );
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '🔍 1 task(s) missed the cache; the job summary lists what changed since the last main run'
+      );
+      expect(mockSummary.addHeading).toHaveBeenCalledWith('🔍 Cache Misses', 3);
+      expect(mockSummary.addTable).toHaveBeenCalledWith([
+        [
+          { data: 'Task', header: true },
+          { data: 'Changed since main', header: true },
+        ],
+        ['web#build', 'files: src/app.ts'],
+      ]);
+      // Only runs on the default branch update the baseline
+      expect(mockSaveFingerprint).not.toHaveBeenCalled();
+    });
+
+    it('should update the baseline on the default branch', async () => {
+      vi.stubEnv('GITHUB_REF', 'refs/heads/main');
+      mockReadTurboRunSummaries.mockResolvedValue([
+        runSummary('HIT', { 'src/app.ts': 'a1' }),
+      ]);
+
+      await cleanupCacheServer();
+
+      expect(mockSaveFingerprint).toHaveBeenCalledWith(
+        expect.anything(),
+        'ci/fingerprints/main.json',
+        expect.objectContaining({
+          tasks: { 'web#build': expect.objectContaining({ hash: 'h1' }) },
+        })
+      );
+      expect(mockSummary.addHeading).not.toHaveBeenCalledWith(
+        '🔍 Cache Misses',
+        3
+      );
+    });
+
+    it('should not update the baseline from pull requests or read-only runs', async () => {
+      vi.stubEnv('GITHUB_REF', 'refs/heads/main');
+      vi.stubEnv('GITHUB_HEAD_REF', 'main');
+      mockReadTurboRunSummaries.mockResolvedValue([
+        runSummary('HIT', { 'src/app.ts': 'a1' }),
+      ]);
+      await cleanupCacheServer();
+
+      vi.stubEnv('GITHUB_HEAD_REF', '');
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            teamId: 'ci',
+            readOnly: 'true',
+          })[name] ?? ''
+      );
+      await cleanupCacheServer();
+
+      expect(mockSaveFingerprint).not.toHaveBeenCalled();
+    });
+
+    it('should encrypt the baseline with the encryption keys', async () => {
+      vi.stubEnv('GITHUB_REF', 'refs/heads/main');
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            storagePath: '/runner/cache',
+            teamId: 'ci',
+            encrypted: 'true',
+          })[name] ?? ''
+      );
+      mockCore.getInput.mockImplementation((name: string) =>
+        name === 'encryption-key' ? 'current-secret-value' : ''
+      );
+      mockReadTurboRunSummaries.mockResolvedValue([
+        runSummary('HIT', { 'src/app.ts': 'a1' }),
+      ]);
+
+      await cleanupCacheServer();
+
+      expect(mockLoadFingerprint).toHaveBeenCalledWith(
+        expect.any(EncryptedStorage),
+        'ci/fingerprints/main.json'
+      );
+      expect(mockSaveFingerprint).toHaveBeenCalledWith(
+        expect.any(EncryptedStorage),
+        'ci/fingerprints/main.json',
+        expect.anything()
+      );
+    });
+
+    it('should skip explanations when the encryption keys are missing', async () => {
+      vi.stubEnv('GITHUB_REF', 'refs/heads/main');
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            storagePath: '/runner/cache',
+            teamId: 'ci',
+            encrypted: 'true',
+          })[name] ?? ''
+      );
+      mockCore.getInput.mockReturnValue('');
+      mockReadTurboRunSummaries.mockResolvedValue([
+        runSummary('HIT', { 'src/app.ts': 'a1' }),
+      ]);
+
+      await cleanupCacheServer();
+
+      expect(mockLoadFingerprint).not.toHaveBeenCalled();
+      expect(mockSaveFingerprint).not.toHaveBeenCalled();
+    });
+
+    it('should only read run summaries written since the cache started', async () => {
+      mockCore.getState.mockImplementation(
+        (name: string) =>
+          ({
+            serverPid: '12345',
+            storageProvider: 'local',
+            teamId: 'ci',
+            startedAt: '1700000000000',
+          })[name] ?? ''
+      );
+
+      await cleanupCacheServer();
+
+      expect(mockReadTurboRunSummaries).toHaveBeenCalledWith('.turbo/runs', {
+        since: 1700000000000,
+        onSkip: expect.any(Function),
+      });
+    });
+
+    it('should warn instead of failing when storage cannot be read', async () => {
+      mockReadTurboRunSummaries.mockResolvedValue([
+        runSummary('MISS', { 'src/app.ts': 'a2' }),
+      ]);
+      mockLoadFingerprint.mockRejectedValue(new Error('AccessDenied'));
+
+      await cleanupCacheServer();
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Could not explain cache misses: AccessDenied'
+      );
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,59 +1,563 @@
 import * as core from '@actions/core';
+import { CacheStats, readCacheStats } from './cache-stats';
+import { CiAdapter, githubActions, SummaryTableRow } from './ci';
+import { createStorage, StorageProvider } from './server/storage';
+import {
+  DEFAULT_SHUTDOWN_TIMEOUT_SECONDS,
+  DEFAULT_UPLOAD_DRAIN_TIMEOUT_SECONDS,
+} from './inputs';
+import {
+  defaultBranch,
+  diffGlobalInputs,
+  explainMisses,
+  fingerprintKey,
+  fingerprintRuns,
+  loadFingerprint,
+  mergeFingerprints,
+  missedTasks,
+  readTurboRunSummaries,
+  saveFingerprint,
+  TURBO_RUNS_DIR,
+} from './cache-misses';
+import {
+  describeExit,
+  readSupervisorState,
+  SupervisorState,
+} from './supervisor/state';
+import {
+  formatLogLine,
+  MAX_LOG_ANNOTATIONS,
+  SERVER_ERROR_LOG_FILE,
+  SERVER_LOG_FILE,
+  truncateLog,
+} from './server-logs';
+import { currentBranch } from './namespaces';
+import { EncryptionKeyListSchema } from './server/encryption';
+import { formatBytes } from './byte-size';
 import { promises as fs } from 'fs';
+import { LocalStorage } from './server/storage/local';
+import { pruneArtifacts } from './prune';
+import { reportCacheStats } from './cache-report';
+import { StorageProviderName } from './server/env';
+
+const SUPERVISOR_EXIT_TIMEOUT_MS = 2000;
+const KILL_EXIT_TIMEOUT_MS = 2000;
+// The server persists its stats at most every 500ms
+const UPLOAD_QUEUE_POLL_MS = 500;
+const MAX_REPORTED_ARTIFACTS = 20;
+
+export function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (isRunning(pid)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+function signalServer(
+  pid: number,
+  groupId: number | undefined,
+  signal: NodeJS.Signals
+): void {
+  // The server runs in the detached supervisor's process group, so signal the
+  // whole group to reach anything it spawned as well
+  if (groupId) {
+    try {
+      process.kill(-groupId, signal);
+      return;
+    } catch {
+      // The group is gone; fall back to the server process itself
+    }
+  }
+  process.kill(pid, signal);
+}
+
+async function stopServer(
+  ci: CiAdapter,
+  serverPid: string,
+  groupId?: string
+): Promise<void> {
+  const pid = parseInt(serverPid);
+  const group = groupId ? parseInt(groupId) : undefined;
+  const timeoutSeconds =
+    Number(ci.getState('shutdownTimeout')) || DEFAULT_SHUTDOWN_TIMEOUT_SECONDS;
 
-async function stopServer(serverPid: string): Promise<void> {
   try {
-    process.kill(parseInt(serverPid), 'SIGTERM');
-    core.info(`✅ Turborepo Remote Cache Server stopped (PID: ${serverPid})`);
+    signalServer(pid, group, 'SIGTERM');
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    core.info(`❌ Failed to stop server process ${serverPid}: ${message}`);
+    ci.info(`❌ Failed to stop server process ${serverPid}: ${message}`);
+    return;
+  }
+
+  if (await waitForExit(pid, timeoutSeconds * 1000)) {
+    ci.info(`✅ Turborepo Remote Cache Server stopped (PID: ${serverPid})`);
+    return;
+  }
+
+  ci.warning(
+    `The cache server did not exit within ${timeoutSeconds} seconds of SIGTERM, sending SIGKILL`,
+    { title: 'Cache Rocket' }
+  );
+  try {
+    signalServer(pid, group, 'SIGKILL');
+  } catch {
+    // Exited between the last check and now
+  }
+
+  if (await waitForExit(pid, KILL_EXIT_TIMEOUT_MS)) {
+    ci.info(`✅ Turborepo Remote Cache Server killed (PID: ${serverPid})`);
+  } else {
+    ci.info(
+      `❌ Failed to stop server process ${serverPid}: still running after SIGKILL`
+    );
   }
 }
 
-async function displayLogFile(logFile: string): Promise<void> {
+async function stopSupervisor(
+  ci: CiAdapter,
+  supervisorPid: string
+): Promise<void> {
+  const pid = parseInt(supervisorPid);
+  try {
+    process.kill(pid, 'SIGTERM');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ci.info(
+      `❌ Failed to stop supervisor process ${supervisorPid}: ${message}`
+    );
+    return;
+  }
+
+  // Wait so a restart in progress cannot race with stopping the server
+  await waitForExit(pid, SUPERVISOR_EXIT_TIMEOUT_MS);
+  ci.info(`✅ Supervisor stopped (PID: ${supervisorPid})`);
+}
+
+/**
+ * Gives write-behind uploads a chance to reach storage before the server
+ * is stopped, which would drop whatever is still queued.
+ */
+async function waitForQueuedUploads(ci: CiAdapter): Promise<void> {
+  if (ci.getState('asyncUploads') !== 'true') {
+    return;
+  }
+  const timeoutSeconds =
+    Number(ci.getState('uploadDrainTimeout')) ||
+    DEFAULT_UPLOAD_DRAIN_TIMEOUT_SECONDS;
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  let queued = (await readCacheStats())?.uploadsQueued ?? 0;
+  if (queued === 0) {
+    return;
+  }
+  ci.info(`⏳ Waiting for ${queued} queued upload(s) to reach storage`);
+  while (queued > 0) {
+    if (Date.now() >= deadline) {
+      ci.warning(
+        `${queued} queued upload(s) did not finish within ${timeoutSeconds} seconds`,
+        { title: 'Cache Rocket' }
+      );
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, UPLOAD_QUEUE_POLL_MS));
+    queued = (await readCacheStats())?.uploadsQueued ?? 0;
+  }
+  ci.info('📤 All queued uploads reached storage');
+}
+
+function reportQueuedUploads(
+  ci: CiAdapter,
+  stats: CacheStats | undefined
+): void {
+  if (!stats) {
+    return;
+  }
+  if (stats.uploadsQueued > 0) {
+    ci.warning(
+      `${stats.uploadsQueued} queued upload(s) were still waiting when the server stopped and were lost`,
+      { title: 'Cache Rocket' }
+    );
+  }
+  const failed = stats.failedUploads;
+  if (failed.length > 0) {
+    ci.warning(
+      `${failed.length} queued upload(s) failed after retrying and are not in storage`,
+      { title: 'Cache Rocket' }
+    );
+    for (const key of failed.slice(0, MAX_REPORTED_ARTIFACTS)) {
+      ci.info(`   ${key}`);
+    }
+    if (failed.length > MAX_REPORTED_ARTIFACTS) {
+      ci.info(`   … and ${failed.length - MAX_REPORTED_ARTIFACTS} more`);
+    }
+  }
+}
+
+function reportDecryptionFailures(
+  ci: CiAdapter,
+  stats: CacheStats | undefined
+): void {
+  const failures = stats?.decryptionFailures ?? [];
+  if (failures.length === 0) {
+    return;
+  }
+  ci.error(
+    `${failures.length} artifact(s) could not be decrypted and were treated as cache misses; check that encryption-key lists every key still in use`,
+    { title: 'Cache Rocket' }
+  );
+  for (const { key, reason } of failures.slice(0, MAX_REPORTED_ARTIFACTS)) {
+    ci.info(`   ${key}: ${reason}`);
+  }
+  if (failures.length > MAX_REPORTED_ARTIFACTS) {
+    ci.info(`   … and ${failures.length - MAX_REPORTED_ARTIFACTS} more`);
+  }
+}
+
+function reportUploads(ci: CiAdapter, stats: CacheStats | undefined): void {
+  if (stats && stats.uploadsInFlight > 0) {
+    ci.warning(
+      `${stats.uploadsInFlight} artifact upload(s) were still in flight when the server stopped and were lost`,
+      { title: 'Cache Rocket' }
+    );
+  } else if (stats && stats.uploadsDrained > 0) {
+    ci.info(
+      `📤 Waited for ${stats.uploadsDrained} in-flight upload(s) to finish before shutdown`
+    );
+  }
+}
+
+function reportRejectedUploads(
+  ci: CiAdapter,
+  stats: CacheStats | undefined
+): void {
+  if (stats && stats.rejectedUploads > 0) {
+    ci.warning(
+      `${stats.rejectedUploads} artifact upload(s) were rejected because their signature was missing or did not match`,
+      { title: 'Cache Rocket' }
+    );
+  }
+}
+
+function reportRefusedWrites(
+  ci: CiAdapter,
+  stats: CacheStats | undefined
+): void {
+  if (ci.getState('readOnly') === 'true') {
+    ci.info(
+      `🔒 The cache was read-only and refused ${stats?.refusedWrites ?? 0} write(s)`
+    );
+  } else if (stats && stats.refusedWrites > 0) {
+    ci.info(
+      `🔒 Refused ${stats.refusedWrites} write(s) made with the read-only token`
+    );
+  }
+}
+
+function reportRestarts(
+  ci: CiAdapter,
+  state: SupervisorState | undefined
+): void {
+  const restarts = state?.restarts ?? [];
+  if (restarts.length === 0) {
+    return;
+  }
+
+  ci.warning(
+    `The cache server crashed and was restarted ${restarts.length} time(s) during this job`,
+    { title: 'Cache Rocket' }
+  );
+  for (const exit of restarts) {
+    ci.info(
+      `   ${new Date(exit.time).toISOString()}: exited with ${describeExit(exit)}`
+    );
+  }
+}
+
+async function evictLocalCache(
+  ci: CiAdapter,
+  stats: CacheStats | undefined
+): Promise<void> {
+  const storagePath = ci.getState('storagePath');
+  const maxCacheSize = ci.getState('maxCacheSize');
+  if (ci.getState('storageProvider') !== 'local' || !maxCacheSize) {
+    return;
+  }
+
+  try {
+    const result = await new LocalStorage(storagePath).evict(
+      Number(maxCacheSize)
+    );
+    ci.info(
+      `🧹 Evicted ${result.artifacts} artifacts (${formatBytes(result.bytes)}) from ${storagePath}`
+    );
+    if (stats) {
+      stats.evictedArtifacts += result.artifacts;
+      stats.evictedBytes += result.bytes;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ci.warning(`Could not evict artifacts from ${storagePath}: ${message}`);
+  }
+}
+
+// Inputs can still be read in the post step, so the keys never go into state
+function readEncryptionKeys(ci: CiAdapter): string[] {
+  const result = EncryptionKeyListSchema.safeParse(
+    ci.getInput('encryption-key')
+  );
+  return result.success ? result.data : [];
+}
+
+// Talks to the provider directly; the server has already stopped
+function createStorageFromState(ci: CiAdapter): StorageProvider {
+  const encryptionKeys = readEncryptionKeys(ci);
+  return createStorage({
+    STORAGE_PROVIDER: ci.getState('storageProvider') as StorageProviderName,
+    STORAGE_PATH: ci.getState('storagePath'),
+    STORAGE_PREFIX: ci.getState('storagePrefix') || undefined,
+    S3_ENDPOINT: ci.getState('s3Endpoint') || undefined,
+    S3_REGION: ci.getState('s3Region') || undefined,
+    ...(ci.getState('s3ForcePathStyle') === 'true' && {
+      S3_FORCE_PATH_STYLE: 'true',
+    }),
+    ...(encryptionKeys.length > 0 && {
+      ENCRYPTION_KEYS: encryptionKeys.join('\n'),
+    }),
+  });
+}
+
+async function pruneStaleArtifacts(ci: CiAdapter): Promise<void> {
+  const mode = ci.getState('prune');
+  if (!mode || mode === 'false') {
+    return;
+  }
+  // Untrusted pull requests must not be able to delete anything
+  if (ci.getState('readOnly') === 'true') {
+    ci.info('🔒 Skipped pruning because the cache was read-only');
+    return;
+  }
+
+  const dryRun = mode === 'dry-run';
+  const retentionDays = Number(ci.getState('retentionDays'));
+  const prefix = `${ci.getState('teamId')}/`;
+  try {
+    const storage = createStorageFromState(ci);
+    const result = await pruneArtifacts(storage, {
+      prefix,
+      retentionDays,
+      dryRun,
+      onPrune: (key) => ci.debug(`${dryRun ? 'Would prune' : 'Pruned'} ${key}`),
+    });
+    ci.setOutput('pruned-artifacts', result.artifacts);
+    ci.setOutput('pruned-bytes', result.bytes);
+    ci.info(
+      dryRun
+        ? `🧹 Dry run: would prune ${result.artifacts} artifacts (${formatBytes(result.bytes)}) unused for ${retentionDays} days from ${prefix}`
+        : `🧹 Pruned ${result.artifacts} artifacts (${formatBytes(result.bytes)}) unused for ${retentionDays} days from ${prefix}`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ci.warning(`Could not prune stale artifacts: ${message}`);
+  }
+}
+
+/**
+ * Compares the tasks turbo missed against the last run on the default
+ * branch and lists what changed in the job summary. Runs on the default
+ * branch also update that baseline.
+ */
+async function explainCacheMisses(ci: CiAdapter): Promise<void> {
+  const provider = ci.getState('storageProvider');
+  if (!provider || provider === 'memory') {
+    return;
+  }
+  // Fingerprints are encrypted like the artifacts, never stored in the clear
+  if (
+    ci.getState('encrypted') === 'true' &&
+    readEncryptionKeys(ci).length === 0
+  ) {
+    ci.debug(
+      'Skipped cache miss explanations because the encryption keys are not available to the post step'
+    );
+    return;
+  }
+  try {
+    const summaries = await readTurboRunSummaries(TURBO_RUNS_DIR, {
+      since: Number(ci.getState('startedAt')) || undefined,
+      onSkip: (file, reason) => ci.debug(`Skipped ${file}: ${reason}`),
+    });
+    if (summaries.length === 0) {
+      ci.debug(
+        `No turbo run summaries in ${TURBO_RUNS_DIR}; run turbo with --summarize to explain cache misses`
+      );
+      return;
+    }
+
+    const storage = createStorageFromState(ci);
+    const teamId = ci.getState('teamId');
+    const baselineBranch = await defaultBranch();
+    const key = fingerprintKey(teamId, baselineBranch);
+    const baseline = await loadFingerprint(storage, key);
+    const current = fingerprintRuns(summaries);
+    const explanations = explainMisses(
+      current,
+      missedTasks(summaries),
+      baseline,
+      baselineBranch
+    );
+
+    // Pull requests, even from a fork's branch of the same name, and
+    // read-only runs must not be able to replace the baseline
+    if (
+      !process.env.GITHUB_HEAD_REF &&
+      currentBranch() === baselineBranch &&
+      ci.getState('readOnly') !== 'true'
+    ) {
+      await saveFingerprint(storage, key, mergeFingerprints(baseline, current));
+    }
+
+    if (explanations.length === 0) {
+      return;
+    }
+    ci.info(
+      `🔍 ${explanations.length} task(s) missed the cache; the job summary lists what changed since the last ${baselineBranch} run`
+    );
+    const rows: SummaryTableRow[] = [
+      [
+        { data: 'Task', header: true },
+        { data: `Changed since ${baselineBranch}`, header: true },
+      ],
+    ];
+    const globalChanges = baseline ? diffGlobalInputs(current, baseline) : [];
+    if (globalChanges.length > 0) {
+      rows.push(['Global inputs', globalChanges.join('; ')]);
+    }
+    for (const { taskId, changes } of explanations.slice(
+      0,
+      MAX_REPORTED_ARTIFACTS
+    )) {
+      rows.push([taskId, changes.join('; ')]);
+    }
+    if (explanations.length > MAX_REPORTED_ARTIFACTS) {
+      rows.push([
+        '…',
+        `${explanations.length - MAX_REPORTED_ARTIFACTS} more task(s)`,
+      ]);
+    }
+    await ci.writeSummary('🔍 Cache Misses', rows);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ci.warning(`Could not explain cache misses: ${message}`);
+  }
+}
+
+async function displayLogFile(ci: CiAdapter, logFile: string): Promise<void> {
   try {
     const logContent = await fs.readFile(logFile, 'utf8');
     if (logContent.trim()) {
-      core.startGroup(`📋 ${logFile}`);
-      const indentedContent = logContent
-        .split('\n')
-        .map((line) => `  ${line}`)
+      const { content, truncatedBytes } = truncateLog(logContent);
+      const lines = content.replace(/\n+$/, '').split('\n').map(formatLogLine);
+
+      ci.startGroup(`📋 ${logFile}`);
+      if (truncatedBytes > 0) {
+        ci.info(`  … ${truncatedBytes} earlier bytes truncated`);
+      }
+      const indentedContent = lines
+        .map((line) => line.text.replace(/^/gm, '  '))
         .join('\n');
-      core.info(indentedContent);
-      core.endGroup();
+      ci.info(indentedContent);
+      ci.endGroup();
+
+      const annotated = lines.filter(
+        (line) =>
+          line.level === 'warn' ||
+          line.level === 'error' ||
+          line.level === 'fatal'
+      );
+      for (const line of annotated.slice(0, MAX_LOG_ANNOTATIONS)) {
+        const properties = { title: 'turborepo-remote-cache' };
+        if (line.level === 'warn') {
+          ci.warning(line.message, properties);
+        } else {
+          ci.error(line.message, properties);
+        }
+      }
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    core.debug(`Could not read log file ${logFile}: ${message}`);
+    ci.debug(`Could not read log file ${logFile}: ${message}`);
   }
 }
 
-async function displayLogs(): Promise<void> {
-  const logFiles = [
-    'logs/turborepo-remote-cache.log',
-    'logs/turborepo-remote-cache-error.log',
-  ];
+async function displayLogs(ci: CiAdapter): Promise<void> {
+  const logFiles = [SERVER_LOG_FILE, SERVER_ERROR_LOG_FILE];
 
-  await Promise.all(logFiles.map(displayLogFile));
+  await Promise.all(logFiles.map((file) => displayLogFile(ci, file)));
 }
 
-export async function cleanupCacheServer(): Promise<void> {
+export async function cleanupCacheServer(
+  ci: CiAdapter = githubActions
+): Promise<void> {
   try {
-    const serverPid = core.getState('serverPid');
+    if (ci.getState('cacheDisabled') === 'true') {
+      ci.info(
+        '⚠️ Remote cache was disabled for this run because the server failed to start'
+      );
+      // The server logs explain why it never became ready
+      await displayLogs(ci);
+      return;
+    }
+
+    await waitForQueuedUploads(ci);
+
+    // Stop the supervisor first so it does not restart the server below
+    const supervisorPid = ci.getState('supervisorPid');
+    if (supervisorPid) {
+      await stopSupervisor(ci, supervisorPid);
+    }
+    const supervisorState = await readSupervisorState();
+    const serverPid =
+      supervisorState?.serverPid?.toString() ?? ci.getState('serverPid');
 
     if (!serverPid) {
-      core.info(
+      ci.info(
         '❌ Turborepo Remote Cache Server was not started or PID not found'
       );
       return;
     }
 
-    await stopServer(serverPid);
-    await displayLogs();
+    await stopServer(ci, serverPid, supervisorPid);
+    reportRestarts(ci, supervisorState);
+    await displayLogs(ci);
+
+    const stats = await readCacheStats();
+    reportUploads(ci, stats);
+    reportQueuedUploads(ci, stats);
+    reportDecryptionFailures(ci, stats);
+    reportRejectedUploads(ci, stats);
+    reportRefusedWrites(ci, stats);
+    await evictLocalCache(ci, stats);
+    await pruneStaleArtifacts(ci);
+    if (stats) {
+      await reportCacheStats(ci, stats);
+    }
+    await explainCacheMisses(ci);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    core.setFailed(`Error in post action: ${message}`);
+    ci.setFailed(`Error in post action: ${message}`);
   }
 }
 
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { GenericCiAdapter } from '../src/ci/generic';
+import { runCli, USAGE } from '../src/cli';
+import { readSupervisorState } from '../src/supervisor/state';
+
+vi.mock('../src/supervisor/state', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/supervisor/state')>()),
+  readSupervisorState: vi.fn(),
+}));
+
+const mockReadSupervisorState = vi.mocked(readSupervisorState);
+// Far above any PID the system hands out
+const EXITED_PID = 4194305;
+
+describe('cli.ts - Command Line Interface', () => {
+  let tempDir: string;
+  let files: string[];
+  let stdout: string[];
+  let stderr: string[];
+  const io = {
+    stdout: (line: string) => stdout.push(line),
+    stderr: (line: string) => stderr.push(line),
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    files = [
+      '--state-file',
+      path.join(tempDir, 'state.json'),
+      '--env-file',
+      path.join(tempDir, 'cache.env'),
+    ];
+    stdout = [];
+    stderr = [];
+    mockReadSupervisorState.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should print usage for --help and reject unknown commands', async () => {
+    expect(await runCli(['--help'], io)).toBe(0);
+    expect(stdout).toEqual([USAGE]);
+
+    expect(await runCli(['restart'], io)).toBe(2);
+    expect(stderr[0]).toContain('Unknown command "restart"');
+  });
+
+  it('should reject unknown options', async () => {
+    expect(await runCli(['start', '--storage', 's3'], io)).toBe(2);
+    expect(stderr[0]).toContain("Unknown option '--storage'");
+  });
+
+  it('should report when no server has been started', async () => {
+    expect(await runCli(['status', ...files], io)).toBe(1);
+    expect(stdout).toEqual(['No cache server has been started']);
+
+    expect(await runCli(['env', ...files], io)).toBe(1);
+    expect(stderr).toEqual(['error: No cache server has been started']);
+  });
+
+  it('should print recorded exports as shell exports', async () => {
+    const ci = new GenericCiAdapter({
+      stateFile: files[1],
+      envFile: files[3],
+      env: {},
+    });
+    ci.exportVariable('TURBO_API', 'http://127.0.0.1:3000');
+    ci.exportVariable('TURBO_TEAM', 'ci');
+
+    expect(await runCli(['env', ...files], io)).toBe(0);
+    expect(stdout).toEqual([
+      'export TURBO_API=http://127.0.0.1:3000',
+      'export TURBO_TEAM=ci',
+    ]);
+  });
+
+  it('should report the server the supervisor restarted', async () => {
+    const ci = new GenericCiAdapter({
+      stateFile: files[1],
+      envFile: files[3],
+      env: {},
+    });
+    ci.saveState('serverPid', EXITED_PID.toString());
+    ci.setOutput('api-url', 'http://127.0.0.1:3000');
+    ci.setOutput('team', 'ci');
+    mockReadSupervisorState.mockResolvedValue({
+      serverPid: process.pid,
+      restarts: [{ time: 1, code: null, signal: 'SIGKILL' }],
+    });
+
+    expect(await runCli(['status', ...files], io)).toBe(0);
+    expect(stdout).toEqual([
+      `Cache server is running (PID: ${process.pid})`,
+      '   API: http://127.0.0.1:3000',
+      '   Team: ci',
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+import { cleanupCacheServer, isRunning } from './cleanup-server';
+import {
+  DEFAULT_ENV_FILE,
+  DEFAULT_STATE_FILE,
+  formatDotenv,
+  GenericCiAdapter,
+} from './ci/generic';
+import { ACTION_INPUT_NAMES } from './inputs';
+import { CONNECTION_MANIFEST_NAME } from './manifest';
+import { parseArgs } from 'util';
+import path from 'path';
+import { readSupervisorState } from './supervisor/state';
+import { startCacheServer } from './launch-server';
+
+const COMMANDS = ['start', 'stop', 'status', 'env'] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+export const USAGE = `Usage: cache-rocket <command> [options]
+
+Commands:
+  start    Start the cache server and write its connection details
+  stop     Stop the cache server and report cache statistics
+  status   Show whether the cache server is running
+  env      Print the connection variables as shell exports
+
+Options:
+  --state-file <path>   State shared between commands (default: ${DEFAULT_STATE_FILE})
+  --env-file <path>     Dotenv file for later steps (default: ${DEFAULT_ENV_FILE})
+  --<input> <value>     Any action input, e.g. --storage-provider s3
+
+Inputs can also be given as CACHE_ROCKET_* variables, e.g.
+CACHE_ROCKET_STORAGE_PROVIDER=s3.
+`;
+
+export interface CliIo {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+}
+
+const defaultIo: CliIo = {
+  stdout: (line) => process.stdout.write(`${line}\n`),
+  stderr: (line) => process.stderr.write(`${line}\n`),
+};
+
+function isCommand(value: string | undefined): value is Command {
+  return COMMANDS.includes(value as Command);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseCli(argv: string[]) {
+  const options: Record<
+    string,
+    { type: 'string' | 'boolean'; short?: string }
+  > = {
+    'state-file': { type: 'string' },
+    'env-file': { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+  };
+  for (const name of ACTION_INPUT_NAMES) {
+    options[name] = { type: 'string' };
+  }
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options,
+  });
+
+  const inputs: Record<string, string> = {};
+  for (const name of ACTION_INPUT_NAMES) {
+    const value = optionalString(values[name]);
+    if (value !== undefined) {
+      inputs[name] = value;
+    }
+  }
+  return {
+    command: positionals[0],
+    help: values.help === true,
+    inputs,
+    stateFile: optionalString(values['state-file']),
+    envFile: optionalString(values['env-file']),
+  };
+}
+
+// The supervisor records the server it last started, which replaces the
+// one in state after a restart
+async function currentServerPid(ci: GenericCiAdapter): Promise<number> {
+  const pid = Number(ci.getState('serverPid'));
+  if (!pid) {
+    return 0;
+  }
+  return (await readSupervisorState())?.serverPid ?? pid;
+}
+
+async function start(ci: GenericCiAdapter, io: CliIo): Promise<number> {
+  const pid = await currentServerPid(ci);
+  if (pid && isRunning(pid)) {
+    io.stderr(
+      `error: A cache server is already running (PID: ${pid}); run cache-rocket stop first`
+    );
+    return 1;
+  }
+  ci.reset();
+
+  // The CLI bundle sits next to the action's, which holds the server
+  await startCacheServer(ci, {
+    bundleDir: path.join(__dirname, '..', 'start'),
+    // Kept with this run's state so concurrent runs do not share one
+    manifestFile: path.join(
+      path.dirname(ci.stateFile),
+      CONNECTION_MANIFEST_NAME
+    ),
+  });
+  if (!ci.failed && ci.getState('cacheDisabled') !== 'true') {
+    io.stdout(`Connection variables written to ${ci.envFile}`);
+    io.stdout('Load them with: eval "$(cache-rocket env)"');
+  }
+  return ci.failed ? 1 : 0;
+}
+
+async function stop(ci: GenericCiAdapter): Promise<number> {
+  await cleanupCacheServer(ci);
+  if (!ci.failed) {
+    ci.reset();
+  }
+  return ci.failed ? 1 : 0;
+}
+
+async function status(ci: GenericCiAdapter, io: CliIo): Promise<number> {
+  const pid = await currentServerPid(ci);
+  if (!pid) {
+    io.stdout('No cache server has been started');
+    return 1;
+  }
+  if (!isRunning(pid)) {
+    io.stdout(`Cache server is not running (PID: ${pid})`);
+    return 1;
+  }
+  io.stdout(`Cache server is running (PID: ${pid})`);
+  const supervisorPid = Number(ci.getState('supervisorPid'));
+  if (supervisorPid && isRunning(supervisorPid)) {
+    io.stdout(`   Supervisor PID: ${supervisorPid}`);
+  }
+  io.stdout(`   API: ${ci.getOutput('api-url')}`);
+  io.stdout(`   Team: ${ci.getOutput('team')}`);
+  return 0;
+}
+
+function env(ci: GenericCiAdapter, io: CliIo): number {
+  const exports = ci.getExports();
+  if (Object.keys(exports).length === 0) {
+    io.stderr('error: No cache server has been started');
+    return 1;
+  }
+  for (const line of formatDotenv(exports).trimEnd().split('\n')) {
+    io.stdout(`export ${line}`);
+  }
+  return 0;
+}
+
+/**
+ * Runs the start and post steps outside GitHub Actions, keeping state and
+ * exports in files so separate pipeline steps can share them.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIo = defaultIo
+): Promise<number> {
+  let options;
+  try {
+    options = parseCli(argv);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr(`error: ${message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (options.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (!isCommand(options.command)) {
+    io.stderr(
+      options.command
+        ? `error: Unknown command "${options.command}"\n\n${USAGE}`
+        : USAGE
+    );
+    return 2;
+  }
+
+  const ci = new GenericCiAdapter({
+    inputs: options.inputs,
+    stateFile: options.stateFile,
+    envFile: options.envFile,
+    ...io,
+  });
+
+  switch (options.command) {
+    case 'start':
+      return start(ci, io);
+    case 'stop':
+      return stop(ci);
+    case 'status':
+      return status(ci, io);
+    case 'env':
+      return env(ci, io);
+  }
+}
+
+// Only run main if this module is executed directly (not imported for testing)
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error: unknown) => {
+      process.stderr.write(`error: ${String(error)}\n`);
+      process.exitCode = 1;
+    }
+  );
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  describeSettings,
+  loadConfigFile,
+  resolveSettings,
+} from '../src/config-file';
+
+describe('config-file.ts - Repository Config File', () => {
+  let root: string;
+
+  function writeConfig(name: string, content: string) {
+    writeFileSync(path.join(root, '.github', name), content);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    mkdirSync(path.join(root, '.github'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return undefined without a config file', async () => {
+    expect(await loadConfigFile(root)).toBeUndefined();
+  });
+
+  it('should load YAML settings as input strings', async () => {
+    writeConfig(
+      'cache-rocket.yml',
+      [
+        'storage-provider: s3',
+        'storage-path: turbo-cache',
+        'port: 4000',
+        'async-uploads: true',
+        'fallback-namespaces: [main, develop]',
+        'branches:',
+        '  release/*:',
+        '    read-only: true',
+      ].join('\n')
+    );
+
+    expect(await loadConfigFile(root)).toEqual({
+      path: path.join('.github', 'cache-rocket.yml'),
+      settings: {
+        'storage-provider': 's3',
+        'storage-path': 'turbo-cache',
+        port: '4000',
+        'async-uploads': 'true',
+        'fallback-namespaces': 'main,develop',
+      },
+      workflows: {},
+      branches: { 'release/*': { 'read-only': 'true' } },
+    });
+  });
+
+  it('should prefer the JSON file and reject unknown keys and secrets', async () => {
+    writeConfig(
+      'cache-rocket.json',
+      JSON.stringify({
+        'storage-provider': 'local',
+        storage: 's3',
+        workflows: { 'build.yml': { token: 'committed-token-value' } },
+      })
+    );
+    writeConfig('cache-rocket.yml', 'storage-provider: s3');
+
+    await expect(loadConfigFile(root)).rejects.toThrow(
+      [
+        `Invalid ${path.join('.github', 'cache-rocket.json')}:`,
+        'workflows.build.yml.token: token must be set as an action input from a secret, not in the config file',
+        'Unrecognized key: "storage"',
+      ].join('\n')
+    );
+  });
+
+  it('should report files that cannot be parsed', async () => {
+    writeConfig('cache-rocket.yaml', 'storage-provider: [s3');
+
+    await expect(loadConfigFile(root)).rejects.toThrow(
+      `Could not parse ${path.join('.github', 'cache-rocket.yaml')}`
+    );
+  });
+
+  it('should layer workflow and branch overrides below the inputs', () => {
+    const settings = resolveSettings(
+      {
+        path: '.github/cache-rocket.yml',
+        settings: { 'storage-provider': 's3', scope: 'team', port: '4000' },
+        workflows: { 'release.yml': { scope: 'branch', 'read-only': 'false' } },
+        branches: {
+          'release/*': { 'read-only': 'true' },
+          main: { prune: 'true' },
+        },
+      },
+      { port: '5000', token: 'shared-token-across-jobs' },
+      {
+        GITHUB_WORKFLOW_REF:
+          'acme/app/.github/workflows/release.yml@refs/heads/release/1.2',
+        GITHUB_REF: 'refs/heads/release/1.2',
+      }
+    );
+
+    expect(settings.inputs).toEqual({
+      'storage-provider': 's3',
+      port: '5000',
+      token: 'shared-token-across-jobs',
+      scope: 'branch',
+      'read-only': 'true',
+    });
+    expect(describeSettings(settings)).toEqual([
+      'storage-provider: s3 (.github/cache-rocket.yml)',
+      'port: 5000 (input)',
+      'token: *** (input)',
+      'scope: branch (workflow release.yml)',
+      'read-only: true (branch release/*)',
+    ]);
+  });
+
+  it('should pass inputs through without a config file', () => {
+    expect(resolveSettings(undefined, { 'team-id': 'web' }, {})).toEqual({
+      inputs: { 'team-id': 'web' },
+      sources: { 'team-id': 'input' },
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  ACTION_INPUT_NAMES,
+  ActionInputName,
+  RawActionInputs,
+  SECRET_INPUT_NAMES,
+} from './inputs';
+import { currentBranch } from './namespaces';
+import { promises as fs } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import path from 'path';
+import { z } from 'zod';
+
+export const CONFIG_FILE_NAMES = [
+  'cache-rocket.json',
+  'cache-rocket.yml',
+  'cache-rocket.yaml',
+] as const;
+
+// YAML and JSON scalars are passed on as the strings inputs would be
+const SettingValueSchema = z
+  .union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+  .transform((value) =>
+    Array.isArray(value) ? value.join(',') : String(value)
+  );
+
+// Secrets belong in action inputs fed from secrets, not in the repository
+const SettingsSchema = z.strictObject(
+  Object.fromEntries(
+    ACTION_INPUT_NAMES.map((name) => [
+      name,
+      SECRET_INPUT_NAMES.has(name)
+        ? z
+            .never({
+              error: `${name} must be set as an action input from a secret, not in the config file`,
+            })
+            .optional()
+        : SettingValueSchema.optional(),
+    ])
+  )
+);
+
+const ConfigFileSchema = z.strictObject({
+  ...SettingsSchema.shape,
+  /** Keyed by workflow file name, e.g. release.yml, or workflow name */
+  workflows: z.record(z.string(), SettingsSchema).optional(),
+  /** Keyed by branch name; `*` matches any characters */
+  branches: z.record(z.string(), SettingsSchema).optional(),
+});
+
+type Settings = Partial<Record<ActionInputName, string>>;
+
+export interface ConfigFile {
+  /** Relative to the repository root */
+  path: string;
+  settings: Settings;
+  workflows: Record<string, Settings>;
+  branches: Record<string, Settings>;
+}
+
+export interface ResolvedSettings {
+  inputs: RawActionInputs;
+  /** Where each set input came from, e.g. `input` or `branch main` */
+  sources: Partial<Record<ActionInputName, string>>;
+}
+
+function formatConfigIssue(issue: z.core.$ZodIssue): string {
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+}
+
+/**
+ * Reads `.github/cache-rocket.json`, `.yml` or `.yaml` from the repository,
+ * or returns undefined when there is none.
+ */
+export async function loadConfigFile(
+  root: string = process.env.GITHUB_WORKSPACE ?? process.cwd()
+): Promise<ConfigFile | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const relativePath = path.join('.github', name);
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(root, relativePath), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        continue;
+      }
+      throw error;
+    }
+
+    let data: unknown;
+    try {
+      data = name.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not parse ${relativePath}: ${message}`);
+    }
+    const result = ConfigFileSchema.safeParse(data ?? {});
+    if (!result.success) {
+      throw new Error(
+        [
+          `Invalid ${relativePath}:`,
+          ...result.error.issues.map(formatConfigIssue),
+        ].join('\n')
+      );
+    }
+    const { workflows = {}, branches = {}, ...settings } = result.data;
+    return { path: relativePath, settings, workflows, branches };
+  }
+  return undefined;
+}
+
+function workflowNames(env: NodeJS.ProcessEnv): string[] {
+  // owner/repo/.github/workflows/build.yml@refs/heads/main
+  const file = /\/([^/@]+)@/.exec(env.GITHUB_WORKFLOW_REF ?? '')?.[1];
+  return [file, env.GITHUB_WORKFLOW].filter((name): name is string => !!name);
+}
+
+function matchesBranch(pattern: string, branch: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Layers the config file's settings, then its overrides for the current
+ * workflow and branch, then the action inputs, each winning over the last.
+ */
+export function resolveSettings(
+  config: ConfigFile | undefined,
+  inputs: RawActionInputs,
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedSettings {
+  const layers: [string, Settings][] = [];
+  if (config) {
+    layers.push([config.path, config.settings]);
+    for (const name of workflowNames(env)) {
+      const overrides = config.workflows[name];
+      if (overrides) {
+        layers.push([`workflow ${name}`, overrides]);
+      }
+    }
+    const branch = currentBranch(env);
+    for (const [pattern, overrides] of Object.entries(config.branches)) {
+      if (branch && matchesBranch(pattern, branch)) {
+        layers.push([`branch ${pattern}`, overrides]);
+      }
+    }
+  }
+  layers.push(['input', inputs]);
+
+  const resolved: ResolvedSettings = { inputs: {}, sources: {} };
+  for (const [source, settings] of layers) {
+    for (const name of ACTION_INPUT_NAMES) {
+      const value = settings[name];
+      if (value !== undefined && value !== '') {
+        resolved.inputs[name] = value;
+        resolved.sources[name] = source;
+      }
+    }
+  }
+  return resolved;
+}
+
+/** One line per set input, with secrets redacted, for the start step log. */
+export function describeSettings({
+  inputs,
+  sources,
+}: ResolvedSettings): string[] {
+  return ACTION_INPUT_NAMES.filter((name) => inputs[name] !== undefined).map(
+    (name) =>
+      `${name}: ${SECRET_INPUT_NAMES.has(name) ? '***' : inputs[name]} (${sources[name]})`
+  );
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { NetworkInterfaceInfo } from 'os';
+import { dockerBridgeGateway, resolveEndpoints } from '../src/endpoints';
+
+const DOCKER_INTERFACES = {
+  docker0: [
+    { family: 'IPv6', address: 'fe80::42:acff:fe11:1' },
+    { family: 'IPv4', address: '172.17.0.1' },
+  ] as NetworkInterfaceInfo[],
+};
+
+describe('endpoints.ts - Cache Endpoints', () => {
+  it('should listen on localhost and advertise the host input by default', () => {
+    expect(
+      resolveEndpoints({ port: 3000, host: 'http://127.0.0.1' }, {})
+    ).toEqual({
+      bindAddress: '127.0.0.1',
+      probeUrl: 'http://127.0.0.1:3000',
+      apiUrl: 'http://127.0.0.1:3000',
+    });
+  });
+
+  it('should advertise advertise-url instead of the host input', () => {
+    expect(
+      resolveEndpoints(
+        {
+          port: 3000,
+          host: 'http://127.0.0.1',
+          bindAddress: '10.1.0.4',
+          advertiseUrl: 'http://cache.internal:8080',
+        },
+        {}
+      )
+    ).toEqual({
+      bindAddress: '10.1.0.4',
+      probeUrl: 'http://10.1.0.4:3000',
+      apiUrl: 'http://cache.internal:8080',
+    });
+  });
+
+  it('should probe wildcard binds through loopback', () => {
+    expect(
+      resolveEndpoints(
+        { port: 3000, host: 'http://127.0.0.1', bindAddress: '::' },
+        {}
+      ).probeUrl
+    ).toBe('http://[::1]:3000');
+    expect(
+      resolveEndpoints(
+        { port: 3000, host: 'http://127.0.0.1', bindAddress: 'fd00::4' },
+        {}
+      ).probeUrl
+    ).toBe('http://[fd00::4]:3000');
+  });
+
+  it('should expose the server to containers in docker mode', () => {
+    expect(
+      resolveEndpoints(
+        { port: 3000, host: 'http://127.0.0.1', advertiseUrl: 'docker' },
+        DOCKER_INTERFACES
+      )
+    ).toEqual({
+      bindAddress: '0.0.0.0',
+      probeUrl: 'http://127.0.0.1:3000',
+      apiUrl: 'http://127.0.0.1:3000',
+      dockerApiUrl: 'http://172.17.0.1:3000',
+    });
+  });
+
+  it('should reject a loopback bind address in docker mode', () => {
+    expect(() =>
+      resolveEndpoints(
+        {
+          port: 3000,
+          host: 'http://127.0.0.1',
+          bindAddress: '127.0.0.1',
+          advertiseUrl: 'docker',
+        },
+        DOCKER_INTERFACES
+      )
+    ).toThrow('Containers cannot reach a server bound to 127.0.0.1');
+  });
+
+  it('should fail clearly without a Docker bridge', () => {
+    expect(() => dockerBridgeGateway({ eth0: [] })).toThrow(
+      'Could not detect the Docker bridge gateway'
+    );
+  });
+});
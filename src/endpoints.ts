@@ -0,0 +1,97 @@
+import { isIPv6 } from 'net';
+import { networkInterfaces } from 'os';
+import { z } from 'zod';
+
+export const DEFAULT_BIND_ADDRESS = '127.0.0.1';
+
+// Listening on every interface is what makes the server reachable from
+// containers on the Docker bridge network
+const DOCKER_BIND_ADDRESS = '0.0.0.0';
+const DOCKER_BRIDGE_INTERFACE = 'docker0';
+
+export const BindAddressSchema = z.union([z.ipv4(), z.ipv6()], {
+  error: 'must be an IPv4 or IPv6 address',
+});
+
+export const AdvertiseUrlSchema = z.union(
+  [
+    z.literal('docker'),
+    z.url({ protocol: /^https?$/ }).transform((url) => url.replace(/\/+$/, '')),
+  ],
+  { error: 'must be an http(s) URL or "docker"' }
+);
+
+export interface EndpointOptions {
+  port: number;
+  /** The host input, used for TURBO_API when no advertise-url is given */
+  host: string;
+  bindAddress?: string;
+  advertiseUrl?: string;
+}
+
+export interface CacheEndpoints {
+  bindAddress: string;
+  /** Where this runner reaches the server, for the readiness probe */
+  probeUrl: string;
+  /** TURBO_API for steps running directly on the runner */
+  apiUrl: string;
+  /** TURBO_API for steps running in Docker containers, in docker mode */
+  dockerApiUrl?: string;
+}
+
+function isLoopback(address: string): boolean {
+  return address.startsWith('127.') || address === '::1';
+}
+
+function urlHost(address: string): string {
+  return isIPv6(address) ? `[${address}]` : address;
+}
+
+/** The runner's address on the default Docker bridge network. */
+export function dockerBridgeGateway(
+  interfaces: ReturnType<typeof networkInterfaces> = networkInterfaces()
+): string {
+  const gateway = interfaces[DOCKER_BRIDGE_INTERFACE]?.find(
+    (address) => address.family === 'IPv4'
+  );
+  if (!gateway) {
+    throw new Error(
+      `Could not detect the Docker bridge gateway: the ${DOCKER_BRIDGE_INTERFACE} network interface was not found; set advertise-url to a URL containers can reach instead`
+    );
+  }
+  return gateway.address;
+}
+
+/**
+ * Works out where the server listens and which URLs steps should use to
+ * reach it, on the runner and, with `advertise-url: docker`, in containers.
+ */
+export function resolveEndpoints(
+  { port, host, bindAddress, advertiseUrl }: EndpointOptions,
+  interfaces: ReturnType<typeof networkInterfaces> = networkInterfaces()
+): CacheEndpoints {
+  const docker = advertiseUrl === 'docker';
+  const bind =
+    bindAddress ?? (docker ? DOCKER_BIND_ADDRESS : DEFAULT_BIND_ADDRESS);
+  if (docker && isLoopback(bind)) {
+    throw new Error(
+      `Containers cannot reach a server bound to ${bind}; remove bind-address or set it to an address on the Docker bridge`
+    );
+  }
+
+  let probeHost = urlHost(bind);
+  if (bind === '0.0.0.0') {
+    probeHost = '127.0.0.1';
+  } else if (bind === '::') {
+    probeHost = '[::1]';
+  }
+
+  return {
+    bindAddress: bind,
+    probeUrl: `http://${probeHost}:${port}`,
+    apiUrl: advertiseUrl && !docker ? advertiseUrl : `${host}:${port}`,
+    ...(docker && {
+      dockerApiUrl: `http://${dockerBridgeGateway(interfaces)}:${port}`,
+    }),
+  };
+}
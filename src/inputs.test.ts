@@ -0,0 +1,336 @@
+import { describe, it, expect } from 'vitest';
+import { parseActionInputs } from '../src/inputs';
+
+describe('inputs.ts - Action Inputs', () => {
+  it('should apply defaults when no inputs are set', () => {
+    expect(parseActionInputs({}, {})).toEqual({
+      'storage-provider': 'memory',
+      'team-id': 'ci',
+      host: 'http://127.0.0.1',
+      's3-force-path-style': false,
+      'async-uploads': false,
+      'upload-drain-timeout': 300,
+      'startup-timeout': 30,
+      'shutdown-timeout': 10,
+      'readiness-canary': false,
+      'fail-on-error': true,
+      scope: 'team',
+      'fallback-namespaces': ['main'],
+      'read-only': 'false',
+      'retention-days': 30,
+      prune: 'false',
+    });
+  });
+
+  it('should parse ports, ranges and sizes into values', () => {
+    expect(
+      parseActionInputs(
+        {
+          'storage-provider': 'local',
+          'storage-path': '/runner/cache',
+          'port-range': '4000-4100',
+          'max-cache-size': '1KB',
+        },
+        {}
+      )
+    ).toMatchObject({
+      'storage-path': '/runner/cache',
+      'port-range': { start: 4000, end: 4100 },
+      'max-cache-size': 1024,
+    });
+    expect(parseActionInputs({ port: '4123' }, {}).port).toBe(4123);
+  });
+
+  it('should reject unknown storage providers', () => {
+    expect(() => parseActionInputs({ 'storage-provider': 's-3' }, {})).toThrow(
+      'Invalid storage-provider "s-3": must be one of memory, local, s3, google-cloud-storage, azure-blob-storage'
+    );
+  });
+
+  it.each([
+    [
+      's3',
+      {
+        AWS_ACCESS_KEY_ID: 'id',
+        AWS_SECRET_ACCESS_KEY: 'secret',
+        AWS_DEFAULT_REGION: 'eu-west-1',
+      },
+    ],
+    ['google-cloud-storage', { GOOGLE_APPLICATION_CREDENTIALS: '/key.json' }],
+    ['azure-blob-storage', { AZURE_STORAGE_CONNECTION_STRING: 'conn' }],
+    [
+      'azure-blob-storage',
+      { AZURE_STORAGE_ACCOUNT: 'account', AZURE_STORAGE_KEY: 'key' },
+    ],
+  ])('should accept %s with its credentials', (provider, env) => {
+    expect(
+      parseActionInputs(
+        { 'storage-provider': provider, 'storage-path': 'bucket' },
+        env
+      )
+    ).toMatchObject({ 'storage-provider': provider });
+  });
+
+  it.each([
+    [
+      'google-cloud-storage',
+      'The GOOGLE_APPLICATION_CREDENTIALS environment variable is required for the google-cloud-storage provider',
+    ],
+    [
+      'azure-blob-storage',
+      'The azure-blob-storage provider requires AZURE_STORAGE_CONNECTION_STRING, or AZURE_STORAGE_ACCOUNT and AZURE_STORAGE_KEY',
+    ],
+  ])('should require credentials for %s', (provider, message) => {
+    expect(() =>
+      parseActionInputs(
+        { 'storage-provider': provider, 'storage-path': 'bucket' },
+        {}
+      )
+    ).toThrow(message);
+  });
+
+  it('should aggregate errors from every input', () => {
+    expect(() =>
+      parseActionInputs(
+        {
+          'storage-provider': 'local',
+          host: 'http://127.0.0.1:8080',
+          port: '0',
+          'port-range': '4000-4100',
+        },
+        {}
+      )
+    ).toThrow(
+      [
+        'Invalid host "http://127.0.0.1:8080": must be a URL without a port or path, e.g. http://127.0.0.1',
+        'Invalid port "0": must be between 1 and 65535',
+        'The port and port-range inputs cannot be used together',
+        'The storage-path input is required for the local provider',
+      ].join('\n')
+    );
+  });
+
+  it('should reject non-boolean fail-on-error values', () => {
+    expect(() => parseActionInputs({ 'fail-on-error': 'no' }, {})).toThrow(
+      'Invalid fail-on-error "no": must be true or false'
+    );
+  });
+
+  it.each(['0', '1.5', 'soon'])(
+    'should reject startup-timeout %j',
+    (timeout) => {
+      expect(() =>
+        parseActionInputs({ 'startup-timeout': timeout }, {})
+      ).toThrow(`Invalid startup-timeout "${timeout}"`);
+    }
+  );
+
+  it('should reject port and port-range together', () => {
+    expect(() =>
+      parseActionInputs({ port: '4000', 'port-range': '4000-4100' }, {})
+    ).toThrow('The port and port-range inputs cannot be used together');
+  });
+
+  it('should accept exact server versions with an optional v prefix', () => {
+    expect(
+      parseActionInputs({ 'server-version': 'v1.2.3' }, {})['server-version']
+    ).toBe('1.2.3');
+    expect(() => parseActionInputs({ 'server-version': 'latest' }, {})).toThrow(
+      'Invalid server-version "latest": must be an exact version'
+    );
+  });
+
+  it('should reject signature-key and signature-secret together', () => {
+    expect(() =>
+      parseActionInputs(
+        { 'signature-key': 'key', 'signature-secret': 'secret' },
+        {}
+      )
+    ).toThrow(
+      'The signature-key and signature-secret inputs cannot be used together'
+    );
+  });
+
+  it('should parse scopes and fallback namespace lists', () => {
+    expect(
+      parseActionInputs(
+        { scope: 'branch', 'fallback-namespaces': 'main,\n release/1.x ' },
+        {}
+      )
+    ).toMatchObject({
+      scope: 'branch',
+      'fallback-namespaces': ['main', 'release/1.x'],
+    });
+    expect(() => parseActionInputs({ scope: 'repo' }, {})).toThrow(
+      'Invalid scope "repo": must be one of team, branch'
+    );
+  });
+
+  it('should accept read-only modes case-insensitively', () => {
+    expect(parseActionInputs({ 'read-only': 'AUTO' }, {})['read-only']).toBe(
+      'auto'
+    );
+    expect(() => parseActionInputs({ 'read-only': 'forks' }, {})).toThrow(
+      'Invalid read-only "forks": must be one of true, false, auto'
+    );
+  });
+
+  it('should validate bind addresses and advertised URLs', () => {
+    expect(
+      parseActionInputs(
+        { 'bind-address': '0.0.0.0', 'advertise-url': 'http://cache:3000/' },
+        {}
+      )
+    ).toMatchObject({
+      'bind-address': '0.0.0.0',
+      'advertise-url': 'http://cache:3000',
+    });
+    expect(parseActionInputs({ 'advertise-url': 'docker' }, {})).toMatchObject({
+      'advertise-url': 'docker',
+    });
+    expect(() =>
+      parseActionInputs(
+        { 'bind-address': 'localhost', 'advertise-url': 'ftp://cache' },
+        {}
+      )
+    ).toThrow(
+      [
+        'Invalid bind-address "localhost": must be an IPv4 or IPv6 address',
+        'Invalid advertise-url "ftp://cache": must be an http(s) URL or "docker"',
+      ].join('\n')
+    );
+  });
+
+  it('should parse pruning inputs and reject pruning memory caches', () => {
+    expect(
+      parseActionInputs(
+        {
+          'storage-provider': 'local',
+          'storage-path': '/runner/cache',
+          'retention-days': '7',
+          prune: 'DRY-RUN',
+        },
+        {}
+      )
+    ).toMatchObject({ 'retention-days': 7, prune: 'dry-run' });
+    expect(() => parseActionInputs({ 'retention-days': '0' }, {})).toThrow(
+      'Invalid retention-days "0": must be at least 1'
+    );
+    expect(() => parseActionInputs({ prune: 'true' }, {})).toThrow(
+      'The prune input cannot be used with the memory provider'
+    );
+  });
+
+  it('should only allow a local tier in front of a remote provider', () => {
+    const env = {
+      AWS_ACCESS_KEY_ID: 'id',
+      AWS_SECRET_ACCESS_KEY: 'secret',
+      AWS_REGION: 'us-east-1',
+    };
+    expect(
+      parseActionInputs(
+        {
+          'storage-provider': 's3',
+          'storage-path': 'bucket',
+          'local-tier-path': '/runner/tier',
+          'local-tier-size': '2GB',
+        },
+        env
+      )
+    ).toMatchObject({
+      'local-tier-path': '/runner/tier',
+      'local-tier-size': 2 * 1024 ** 3,
+    });
+    expect(() =>
+      parseActionInputs({ 'local-tier-path': '/runner/tier' }, {})
+    ).toThrow(
+      'The local-tier-path input requires the s3, google-cloud-storage or azure-blob-storage provider'
+    );
+    expect(() => parseActionInputs({ 'local-tier-size': '2GB' }, {})).toThrow(
+      'The local-tier-size input requires local-tier-path'
+    );
+  });
+
+  it('should only allow async uploads to a remote provider', () => {
+    expect(
+      parseActionInputs(
+        {
+          'storage-provider': 'google-cloud-storage',
+          'storage-path': 'bucket',
+          'async-uploads': 'true',
+          'upload-drain-timeout': '60',
+        },
+        { GOOGLE_APPLICATION_CREDENTIALS: '/creds.json' }
+      )
+    ).toMatchObject({ 'async-uploads': true, 'upload-drain-timeout': 60 });
+    expect(() => parseActionInputs({ 'async-uploads': 'true' }, {})).toThrow(
+      'The async-uploads input requires the s3, google-cloud-storage or azure-blob-storage provider'
+    );
+  });
+
+  it('should configure S3-compatible endpoints without AWS_REGION', () => {
+    expect(
+      parseActionInputs(
+        {
+          'storage-provider': 's3',
+          'storage-path': 'bucket',
+          'storage-prefix': '/turbo/cache/',
+          's3-endpoint': 'http://127.0.0.1:9000',
+          's3-region': 'auto',
+          's3-force-path-style': 'true',
+        },
+        { AWS_ACCESS_KEY_ID: 'id', AWS_SECRET_ACCESS_KEY: 'secret' }
+      )
+    ).toMatchObject({
+      'storage-prefix': 'turbo/cache',
+      's3-endpoint': 'http://127.0.0.1:9000',
+      's3-region': 'auto',
+      's3-force-path-style': true,
+    });
+  });
+
+  it('should validate storage prefixes and S3 endpoint inputs', () => {
+    expect(() =>
+      parseActionInputs({ 'storage-prefix': 'turbo/../cache' }, {})
+    ).toThrow('must not contain "." or ".." segments');
+    expect(() => parseActionInputs({ 'storage-prefix': 'a//b' }, {})).toThrow(
+      'Invalid storage-prefix "a//b"'
+    );
+    expect(() =>
+      parseActionInputs(
+        {
+          'storage-provider': 's3',
+          'storage-path': 'bucket',
+          's3-endpoint': 'ftp://minio',
+        },
+        { AWS_ACCESS_KEY_ID: 'id', AWS_SECRET_ACCESS_KEY: 'secret' }
+      )
+    ).toThrow('Invalid s3-endpoint "ftp://minio": must be an http(s) URL');
+    expect(() =>
+      parseActionInputs({ 's3-endpoint': 'http://127.0.0.1:9000' }, {})
+    ).toThrow(
+      'The s3-endpoint, s3-region and s3-force-path-style inputs require the s3 provider'
+    );
+  });
+
+  it('should parse encryption keys without echoing invalid ones', () => {
+    expect(
+      parseActionInputs(
+        { 'encryption-key': ' current-secret-value \n\nprevious-secret-value' },
+        {}
+      )['encryption-key']
+    ).toEqual(['current-secret-value', 'previous-secret-value']);
+    expect(() =>
+      parseActionInputs({ 'encryption-key': 'short-secret' }, {})
+    ).toThrow(/^Invalid encryption-key: keys must be at least 16 characters$/);
+  });
+
+  it('should accept a shared token without echoing invalid ones', () => {
+    expect(
+      parseActionInputs({ token: 'shared-token-across-jobs' }, {}).token
+    ).toBe('shared-token-across-jobs');
+    expect(() => parseActionInputs({ token: 'short token' }, {})).toThrow(
+      /^Invalid token: must be at least 16 printable characters without spaces$/
+    );
+  });
+});
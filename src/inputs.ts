@@ -0,0 +1,347 @@
+import { AdvertiseUrlSchema, BindAddressSchema } from './endpoints';
+import {
+  CACHE_SCOPES,
+  DEFAULT_FALLBACK_NAMESPACES,
+  NamespaceListSchema,
+} from './namespaces';
+import { DEFAULT_RETENTION_DAYS, PruneModeSchema } from './prune';
+import { PortRangeSchema, PortSchema } from './ports';
+import {
+  STORAGE_PROVIDERS,
+  StoragePrefixSchema,
+  StorageProviderName,
+} from './server/env';
+import { CiAdapter } from './ci';
+import { DEFAULT_STARTUP_TIMEOUT_SECONDS } from './readiness';
+import { EncryptionKeyListSchema } from './server/encryption';
+import { parseByteSize } from './byte-size';
+import { ReadOnlyModeSchema } from './read-only';
+import { TokenSchema } from './tokens';
+import { z } from 'zod';
+
+// Read in this order so the start step logs and fails deterministically
+export const ACTION_INPUT_NAMES = [
+  'storage-provider',
+  'storage-path',
+  'team-id',
+  'host',
+  'bind-address',
+  'advertise-url',
+  'port',
+  'port-range',
+  'max-cache-size',
+  'storage-prefix',
+  's3-endpoint',
+  's3-region',
+  's3-force-path-style',
+  'local-tier-path',
+  'local-tier-size',
+  'async-uploads',
+  'upload-drain-timeout',
+  'startup-timeout',
+  'shutdown-timeout',
+  'readiness-canary',
+  'fail-on-error',
+  'server-version',
+  'signature-key',
+  'signature-secret',
+  'encryption-key',
+  'token',
+  'scope',
+  'fallback-namespaces',
+  'read-only',
+  'retention-days',
+  'prune',
+] as const;
+
+// Never echoed back in validation errors or logs
+export const SECRET_INPUT_NAMES: ReadonlySet<string> = new Set([
+  'signature-key',
+  'signature-secret',
+  'encryption-key',
+  'token',
+]);
+
+export type ActionInputName = (typeof ACTION_INPUT_NAMES)[number];
+
+export type RawActionInputs = Partial<Record<ActionInputName, string>>;
+
+const ByteSizeSchema = z.string().transform((value, ctx) => {
+  try {
+    return parseByteSize(value);
+  } catch {
+    ctx.addIssue({ code: 'custom', message: 'expected e.g. 500MB or 10GB' });
+    return z.NEVER;
+  }
+});
+
+// Accepts the same spellings as core.getBooleanInput
+const BooleanInputSchema = z
+  .string()
+  .regex(/^(true|false)$/i, { message: 'must be true or false' })
+  .transform((value) => value.toLowerCase() === 'true');
+
+const SecondsSchema = z
+  .string()
+  .regex(/^\d+$/, { message: 'must be a whole number of seconds' })
+  .transform(Number)
+  .refine((seconds) => seconds > 0, { message: 'must be at least 1' });
+
+export const DEFAULT_SHUTDOWN_TIMEOUT_SECONDS = 10;
+export const DEFAULT_UPLOAD_DRAIN_TIMEOUT_SECONDS = 300;
+
+export const FailOnErrorSchema = BooleanInputSchema.default(true);
+
+const CommonInputsSchema = z
+  .object({
+    'storage-prefix': z
+      .string()
+      .transform((prefix) => prefix.replace(/^\/+|\/+$/g, ''))
+      .pipe(StoragePrefixSchema)
+      .optional(),
+    's3-endpoint': z
+      .url({ protocol: /^https?$/, error: 'must be an http(s) URL' })
+      .optional(),
+    's3-region': z
+      .string()
+      .regex(/^[A-Za-z0-9_-]+$/, {
+        message: 'must be a region name, e.g. us-east-1 or auto',
+      })
+      .optional(),
+    's3-force-path-style': BooleanInputSchema.default(false),
+    'team-id': z
+      .string()
+      .regex(/^[A-Za-z0-9_.-]+$/, {
+        message: 'may only contain letters, digits, ".", "_" and "-"',
+      })
+      .default('ci'),
+    host: z
+      .string()
+      .regex(/^https?:\/\/[^/:]+$/, {
+        message: 'must be a URL without a port or path, e.g. http://127.0.0.1',
+      })
+      .default('http://127.0.0.1'),
+    'bind-address': BindAddressSchema.optional(),
+    'advertise-url': AdvertiseUrlSchema.optional(),
+    port: PortSchema.transform(Number).optional(),
+    'port-range': PortRangeSchema.optional(),
+    'max-cache-size': ByteSizeSchema.optional(),
+    'local-tier-path': z.string().optional(),
+    'local-tier-size': ByteSizeSchema.optional(),
+    'async-uploads': BooleanInputSchema.default(false),
+    'upload-drain-timeout': SecondsSchema.default(
+      DEFAULT_UPLOAD_DRAIN_TIMEOUT_SECONDS
+    ),
+    'startup-timeout': SecondsSchema.default(DEFAULT_STARTUP_TIMEOUT_SECONDS),
+    'shutdown-timeout': SecondsSchema.default(DEFAULT_SHUTDOWN_TIMEOUT_SECONDS),
+    'readiness-canary': BooleanInputSchema.default(false),
+    'fail-on-error': FailOnErrorSchema,
+    'server-version': z
+      .string()
+      .regex(/^v?\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/, {
+        message: 'must be an exact version, e.g. 1.0.0',
+      })
+      .transform((version) => version.replace(/^v/, ''))
+      .optional(),
+    'signature-key': z.string().optional(),
+    'signature-secret': z.string().optional(),
+    'encryption-key': EncryptionKeyListSchema.optional(),
+    token: TokenSchema.optional(),
+    scope: z
+      .enum(CACHE_SCOPES, {
+        error: () => `must be one of ${CACHE_SCOPES.join(', ')}`,
+      })
+      .default('team'),
+    'fallback-namespaces': NamespaceListSchema.default(
+      DEFAULT_FALLBACK_NAMESPACES
+    ),
+    'read-only': ReadOnlyModeSchema.default('false'),
+    'retention-days': z
+      .string()
+      .regex(/^\d+$/, { message: 'must be a whole number of days' })
+      .transform(Number)
+      .refine((days) => days > 0, { message: 'must be at least 1' })
+      .default(DEFAULT_RETENTION_DAYS),
+    prune: PruneModeSchema.default('false'),
+  })
+  .refine((inputs) => !(inputs.port && inputs['port-range']), {
+    message: 'The port and port-range inputs cannot be used together',
+  })
+  .refine(
+    (inputs) =>
+      inputs['local-tier-size'] === undefined || !!inputs['local-tier-path'],
+    { message: 'The local-tier-size input requires local-tier-path' }
+  )
+  .refine(
+    (inputs) => !(inputs['signature-key'] && inputs['signature-secret']),
+    {
+      message:
+        'The signature-key and signature-secret inputs cannot be used together',
+    }
+  );
+
+function requiredPath(provider: StorageProviderName) {
+  return z
+    .string({
+      error: `The storage-path input is required for the ${provider} provider`,
+    })
+    .min(1);
+}
+
+function requiredEnv(name: string, provider: StorageProviderName) {
+  return z
+    .string({
+      error: `The ${name} environment variable is required for the ${provider} provider`,
+    })
+    .min(1);
+}
+
+const S3EnvSchema = z.object({
+  AWS_ACCESS_KEY_ID: requiredEnv('AWS_ACCESS_KEY_ID', 's3'),
+  AWS_SECRET_ACCESS_KEY: requiredEnv('AWS_SECRET_ACCESS_KEY', 's3'),
+  AWS_REGION: z.string().optional(),
+  AWS_DEFAULT_REGION: z.string().optional(),
+});
+
+const AzureEnvSchema = z
+  .object({
+    AZURE_STORAGE_CONNECTION_STRING: z.string().optional(),
+    AZURE_STORAGE_ACCOUNT: z.string().optional(),
+    AZURE_STORAGE_KEY: z.string().optional(),
+  })
+  .refine(
+    (env) =>
+      !!env.AZURE_STORAGE_CONNECTION_STRING ||
+      (!!env.AZURE_STORAGE_ACCOUNT && !!env.AZURE_STORAGE_KEY),
+    {
+      message:
+        'The azure-blob-storage provider requires AZURE_STORAGE_CONNECTION_STRING, or AZURE_STORAGE_ACCOUNT and AZURE_STORAGE_KEY',
+    }
+  );
+
+const ProviderInputsSchema = z.discriminatedUnion(
+  'storage-provider',
+  [
+    z.object({ 'storage-provider': z.literal('memory') }),
+    z.object({
+      'storage-provider': z.literal('local'),
+      'storage-path': requiredPath('local'),
+    }),
+    z
+      .object({
+        'storage-provider': z.literal('s3'),
+        'storage-path': requiredPath('s3'),
+        // Validated with the common inputs; only needed to find a region
+        's3-region': z.string().optional(),
+        env: S3EnvSchema,
+      })
+      .refine(
+        (inputs) =>
+          !!inputs['s3-region'] ||
+          !!inputs.env?.AWS_REGION ||
+          !!inputs.env?.AWS_DEFAULT_REGION,
+        {
+          message:
+            'The s3 provider requires the s3-region input or the AWS_REGION environment variable',
+          // Reported alongside missing credentials rather than after them
+          when: () => true,
+        }
+      ),
+    z.object({
+      'storage-provider': z.literal('google-cloud-storage'),
+      'storage-path': requiredPath('google-cloud-storage'),
+      env: z.object({
+        GOOGLE_APPLICATION_CREDENTIALS: requiredEnv(
+          'GOOGLE_APPLICATION_CREDENTIALS',
+          'google-cloud-storage'
+        ),
+      }),
+    }),
+    z.object({
+      'storage-provider': z.literal('azure-blob-storage'),
+      'storage-path': requiredPath('azure-blob-storage'),
+      env: AzureEnvSchema,
+    }),
+  ],
+  { error: () => `must be one of ${STORAGE_PROVIDERS.join(', ')}` }
+);
+
+export const ActionInputsSchema = z
+  .intersection(CommonInputsSchema, ProviderInputsSchema)
+  .refine(
+    (inputs) =>
+      inputs.prune === 'false' || inputs['storage-provider'] !== 'memory',
+    { message: 'The prune input cannot be used with the memory provider' }
+  )
+  .refine(
+    (inputs) =>
+      !inputs['local-tier-path'] ||
+      !['memory', 'local'].includes(inputs['storage-provider']),
+    {
+      message:
+        'The local-tier-path input requires the s3, google-cloud-storage or azure-blob-storage provider',
+    }
+  )
+  .refine(
+    (inputs) =>
+      inputs['storage-provider'] === 's3' ||
+      (!inputs['s3-endpoint'] &&
+        !inputs['s3-region'] &&
+        !inputs['s3-force-path-style']),
+    {
+      message:
+        'The s3-endpoint, s3-region and s3-force-path-style inputs require the s3 provider',
+    }
+  )
+  .refine(
+    (inputs) =>
+      !inputs['async-uploads'] ||
+      !['memory', 'local'].includes(inputs['storage-provider']),
+    {
+      message:
+        'The async-uploads input requires the s3, google-cloud-storage or azure-blob-storage provider',
+    }
+  );
+
+export type ActionInputs = z.infer<typeof ActionInputsSchema>;
+
+function formatIssue(issue: z.core.$ZodIssue, inputs: RawActionInputs) {
+  const [name] = issue.path;
+  const value = inputs[name as keyof RawActionInputs];
+  if (value === undefined) {
+    return issue.message;
+  }
+  return SECRET_INPUT_NAMES.has(String(name))
+    ? `Invalid ${String(name)}: ${issue.message}`
+    : `Invalid ${String(name)} "${value}": ${issue.message}`;
+}
+
+export function parseActionInputs(
+  inputs: RawActionInputs,
+  env: NodeJS.ProcessEnv = process.env
+): ActionInputs {
+  const result = ActionInputsSchema.safeParse({
+    'storage-provider': 'memory',
+    ...inputs,
+    env,
+  });
+
+  if (!result.success) {
+    const messages = result.error.issues.map((issue) =>
+      formatIssue(issue, inputs)
+    );
+    throw new Error([...new Set(messages)].join('\n'));
+  }
+  return result.data;
+}
+
+export function readActionInputs(ci: CiAdapter): RawActionInputs {
+  const inputs: RawActionInputs = {};
+  for (const name of ACTION_INPUT_NAMES) {
+    const value = ci.getInput(name);
+    if (value) {
+      inputs[name] = value;
+    }
+  }
+  return inputs;
+}
@@ -3,29 +3,60 @@ import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import * as core from '@actions/core';
 import portfinder from 'portfinder';
-import waitPort from 'wait-port';
+import { networkInterfaces } from 'os';
 import { randomBytes } from 'crypto';
+import path from 'path';
+import { loadConfigFile } from '../src/config-file';
+import { parse as parseYaml } from 'yaml';
 import { startCacheServer } from '../src/launch-server';
+import { SERVER_VERSION } from '../src/server/version';
+import { waitForServerReady } from '../src/readiness';
 
 // Mock all external dependencies
 vi.mock('@actions/core');
 vi.mock('child_process');
 vi.mock('fs', () => ({
   promises: {
+    access: vi.fn(),
     mkdir: vi.fn(),
+    open: vi.fn(),
+    readFile: vi.fn(),
+    writeFile: vi.fn(),
   },
 }));
 vi.mock('portfinder');
-vi.mock('wait-port');
-vi.mock('crypto');
+vi.mock('os');
+vi.mock('../src/readiness');
+// The repository config file is covered by its own tests
+vi.mock('../src/config-file', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/config-file')>()),
+  loadConfigFile: vi.fn().mockResolvedValue(undefined),
+}));
+// Only token generation is mocked; the read-only token is derived for real
+vi.mock('crypto', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('crypto')>()),
+  randomBytes: vi.fn(),
+}));
 
 // Mock the start module
 const mockSpawn = vi.mocked(spawn);
 const mockCore = vi.mocked(core);
 const mockPortfinder = vi.mocked(portfinder);
-const mockWaitPort = vi.mocked(waitPort);
+const mockWaitForServerReady = vi.mocked(waitForServerReady);
 const mockFs = vi.mocked(fs);
 const mockRandomBytes = vi.mocked(randomBytes);
+const mockLoadConfigFile = vi.mocked(loadConfigFile);
+const mockClose = vi.fn().mockResolvedValue(undefined);
+
+function mockInputs(inputs: Record<string, string>) {
+  mockCore.getInput.mockImplementation((name: string) => inputs[name] ?? '');
+}
+
+function stubAwsCredentials() {
+  vi.stubEnv('AWS_ACCESS_KEY_ID', 'AKIAEXAMPLE');
+  vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'secret');
+  vi.stubEnv('AWS_REGION', 'us-east-1');
+}
 
 describe('start.ts - Main Action', () => {
   beforeEach(() => {
@@ -37,22 +68,39 @@ describe('start.ts - Main Action', () => {
     mockCore.info = vi.fn();
     mockCore.saveState = vi.fn();
     mockCore.setFailed = vi.fn();
+    mockCore.setSecret = vi.fn();
+    mockCore.setOutput = vi.fn();
+    mockCore.warning = vi.fn();
 
     mockPortfinder.getPortPromise = vi.fn().mockResolvedValue(3000);
 
     mockRandomBytes.mockReturnValue(Buffer.alloc(32) as any);
+    mockLoadConfigFile.mockResolvedValue(undefined);
 
+    mockFs.access = vi.fn().mockResolvedValue(undefined);
     mockFs.mkdir = vi.fn().mockResolvedValue(undefined);
-
-    mockWaitPort.mockResolvedValue({ open: true, ipVersion: 4 });
+    mockFs.writeFile = vi.fn().mockResolvedValue(undefined);
+    vi.stubEnv('RUNNER_TEMP', '/runner/temp');
+    mockFs.readFile = vi
+      .fn()
+      .mockResolvedValue(JSON.stringify({ serverPid: 12346, restarts: [] }));
+    mockFs.open = vi.fn().mockImplementation(async (file: string) => ({
+      fd: file.endsWith('-error.log') ? 22 : 21,
+      close: mockClose,
+    }));
+
+    mockWaitForServerReady.mockResolvedValue(undefined);
 
     mockSpawn.mockReturnValue({
       pid: 12345,
       unref: vi.fn(),
     } as any);
+
+    vi.spyOn(process, 'kill').mockReturnValue(true);
   });
 
   afterEach(() => {
+    vi.unstubAllEnvs();
     vi.restoreAllMocks();
   });
 
@@ -103,43 +151,90 @@ describe('start.ts - Main Action', () => {
     expect(mockCore.exportVariable).toHaveBeenCalledWith('TURBO_TEAM', 'ci');
   });
 
-  it('should spawn turborepo-remote-cache with correct arguments', async () => {
+  it('should spawn the bundled supervisor with correct arguments', async () => {
     await startCacheServer();
 
     expect(mockSpawn).toHaveBeenCalledWith(
-      'npx',
-      ['turborepo-remote-cache'],
+      process.execPath,
+      [expect.stringMatching(/supervisor[\\/]index\.js$/)],
       expect.objectContaining({
         detached: true,
-        stdio: 'ignore',
+        stdio: ['ignore', 21, 22],
         env: expect.any(Object),
       })
     );
   });
 
-  it('should wait for port to be available', async () => {
+  it('should stream server output into the log files', async () => {
     await startCacheServer();
 
-    expect(mockWaitPort).toHaveBeenCalledWith({
-      host: 'localhost',
-      port: 3000,
-      timeout: 30000,
+    expect(mockFs.open).toHaveBeenCalledWith(
+      'logs/turborepo-remote-cache.log',
+      'a'
+    );
+    expect(mockFs.open).toHaveBeenCalledWith(
+      'logs/turborepo-remote-cache-error.log',
+      'a'
+    );
+    // The child keeps its own copies of the descriptors
+    expect(mockClose).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close log files even if spawn fails', async () => {
+    mockSpawn.mockImplementation(() => {
+      throw new Error('spawn node ENOENT');
+    });
+
+    await startCacheServer();
+
+    expect(mockClose).toHaveBeenCalledTimes(2);
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to start Turborepo Remote Cache Server: spawn node ENOENT'
+    );
+  });
+
+  it('should wait for the server to answer an authenticated probe', async () => {
+    await startCacheServer();
+
+    expect(mockWaitForServerReady).toHaveBeenCalledWith({
+      baseUrl: 'http://127.0.0.1:3000',
+      token: '0'.repeat(64),
+      teamId: 'ci',
+      timeoutMs: 30000,
+      canary: false,
+      readOnly: false,
+      serverProcess: expect.objectContaining({ pid: 12345 }),
+      stderrFile: 'logs/turborepo-remote-cache-error.log',
+      version: SERVER_VERSION,
     });
   });
 
+  it('should pass startup-timeout and readiness-canary to the probe', async () => {
+    mockInputs({ 'startup-timeout': '120', 'readiness-canary': 'true' });
+
+    await startCacheServer();
+
+    expect(mockWaitForServerReady).toHaveBeenCalledWith(
+      expect.objectContaining({ timeoutMs: 120000, canary: true })
+    );
+  });
+
   it('should log server information when started successfully', async () => {
     await startCacheServer();
 
     expect(mockCore.info).toHaveBeenCalledWith(
       '✅ Turborepo Remote Cache Server started'
     );
-    expect(mockCore.info).toHaveBeenCalledWith('   PID: 12345');
+    expect(mockCore.info).toHaveBeenCalledWith('   Version: 1.0.0');
+    expect(mockCore.info).toHaveBeenCalledWith('   PID: 12346');
+    expect(mockCore.info).toHaveBeenCalledWith('   Supervisor PID: 12345');
     expect(mockCore.info).toHaveBeenCalledWith('   Port: 3000');
     expect(mockCore.info).toHaveBeenCalledWith('   API: http://127.0.0.1:3000');
     expect(mockCore.info).toHaveBeenCalledWith('   Team: ci');
   });
 
   it('should log storage provider information when provided', async () => {
+    stubAwsCredentials();
     mockCore.getInput
       .mockReturnValueOnce('s3') // storage-provider
       .mockReturnValueOnce('my-bucket'); // storage-path
@@ -153,17 +248,33 @@ describe('start.ts - Main Action', () => {
   it('should save server state for cleanup', async () => {
     await startCacheServer();
 
-    expect(mockCore.saveState).toHaveBeenCalledWith('serverPid', '12345');
+    expect(mockCore.saveState).toHaveBeenCalledWith('serverPid', '12346');
+    expect(mockCore.saveState).toHaveBeenCalledWith('supervisorPid', '12345');
+    expect(mockCore.saveState).toHaveBeenCalledWith('shutdownTimeout', '10');
+  });
+
+  it('should arm the supervisor once the server is ready', async () => {
+    await startCacheServer();
+
+    expect(process.kill).toHaveBeenCalledWith(12345, 'SIGUSR2');
+    expect(mockFs.readFile).toHaveBeenCalledWith(
+      'logs/supervisor-state.json',
+      'utf8'
+    );
     expect(mockCore.saveState).toHaveBeenCalledWith('serverPort', '3000');
   });
 
-  it('should handle port not opening within timeout', async () => {
-    mockWaitPort.mockResolvedValue({ open: false, ipVersion: 4 });
+  it('should fail when the server does not become ready', async () => {
+    mockWaitForServerReady.mockRejectedValue(
+      new Error(
+        'Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:3000'
+      )
+    );
 
     await startCacheServer();
 
     expect(mockCore.setFailed).toHaveBeenCalledWith(
-      'Failed to start Turborepo Remote Cache Server: Port 3000 did not open within 30 seconds'
+      'Failed to start Turborepo Remote Cache Server: Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:3000'
     );
   });
 
@@ -180,6 +291,7 @@ describe('start.ts - Main Action', () => {
   });
 
   it('should include storage environment variables in spawn env', async () => {
+    stubAwsCredentials();
     mockCore.getInput
       .mockReturnValueOnce('s3') // storage-provider
       .mockReturnValueOnce('my-bucket'); // storage-path
@@ -187,8 +299,8 @@ describe('start.ts - Main Action', () => {
     await startCacheServer();
 
     expect(mockSpawn).toHaveBeenCalledWith(
-      'npx',
-      ['turborepo-remote-cache'],
+      process.execPath,
+      [expect.stringMatching(/supervisor[\\/]index\.js$/)],
       expect.objectContaining({
         env: expect.objectContaining({
           STORAGE_PROVIDER: 's3',
@@ -199,4 +311,632 @@ describe('start.ts - Main Action', () => {
       })
     );
   });
+
+  it('should use the requested port when it is free', async () => {
+    mockInputs({ port: '4123' });
+    mockPortfinder.getPortPromise.mockResolvedValue(4123);
+
+    await startCacheServer();
+
+    expect(mockPortfinder.getPortPromise).toHaveBeenCalledWith({
+      port: 4123,
+      stopPort: 4123,
+    });
+    expect(mockCore.exportVariable).toHaveBeenCalledWith(
+      'TURBO_API',
+      'http://127.0.0.1:4123'
+    );
+  });
+
+  it('should fail clearly when the requested port is taken', async () => {
+    mockInputs({ port: '4123' });
+    mockPortfinder.getPortPromise.mockRejectedValue(
+      new Error('No open ports found in between 4123 and 4123')
+    );
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to start Turborepo Remote Cache Server: Port 4123 is already in use'
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should search for a port within port-range', async () => {
+    mockInputs({ 'port-range': '4000-4100' });
+    mockPortfinder.getPortPromise.mockResolvedValue(4007);
+
+    await startCacheServer();
+
+    expect(mockPortfinder.getPortPromise).toHaveBeenCalledWith({
+      port: 4000,
+      stopPort: 4100,
+    });
+    expect(mockCore.saveState).toHaveBeenCalledWith('serverPort', '4007');
+  });
+
+  it('should fail when port-range is exhausted', async () => {
+    mockInputs({ 'port-range': '4000-4001' });
+    mockPortfinder.getPortPromise.mockRejectedValue(new Error('none'));
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to start Turborepo Remote Cache Server: No free port available in range 4000-4001'
+    );
+  });
+
+  it.each([
+    [{ port: 'abc' }, 'Invalid port "abc": must be numeric'],
+    [{ port: '70000' }, 'Invalid port "70000": must be between 1 and 65535'],
+    [
+      { 'port-range': '4100-4000' },
+      'Invalid port-range "4100-4000": must be an ascending range between 1 and 65535',
+    ],
+    [
+      { 'port-range': '4000' },
+      'Invalid port-range "4000": must look like "4000-4100"',
+    ],
+    [
+      { port: '4000', 'port-range': '4000-4100' },
+      'The port and port-range inputs cannot be used together',
+    ],
+  ])('should reject invalid port inputs %o', async (inputs, message) => {
+    mockInputs(inputs);
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      `Failed to start Turborepo Remote Cache Server: ${message}`
+    );
+    expect(mockPortfinder.getPortPromise).not.toHaveBeenCalled();
+  });
+
+  it('should point the cache server at the stats file', async () => {
+    await startCacheServer();
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      [expect.any(String)],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          CACHE_STATS_FILE: 'logs/cache-stats.json',
+        }),
+      })
+    );
+  });
+
+  it('should pass max-cache-size to a local cache server in bytes', async () => {
+    mockInputs({
+      'storage-provider': 'local',
+      'storage-path': '/runner/cache',
+      'max-cache-size': '2GB',
+    });
+
+    await startCacheServer();
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      [expect.any(String)],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          STORAGE_PROVIDER: 'local',
+          STORAGE_PATH: '/runner/cache',
+          MAX_CACHE_SIZE: String(2 * 1024 ** 3),
+        }),
+      })
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('   Max Cache Size: 2.0 GB');
+    expect(mockCore.saveState).toHaveBeenCalledWith('storageProvider', 'local');
+    expect(mockCore.saveState).toHaveBeenCalledWith(
+      'storagePath',
+      '/runner/cache'
+    );
+    expect(mockCore.saveState).toHaveBeenCalledWith(
+      'maxCacheSize',
+      String(2 * 1024 ** 3)
+    );
+  });
+
+  it('should reject an invalid max-cache-size', async () => {
+    mockInputs({ 'max-cache-size': 'lots' });
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to start Turborepo Remote Cache Server: Invalid max-cache-size "lots": expected e.g. 500MB or 10GB'
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should report every invalid input before spawning anything', async () => {
+    vi.stubEnv('AWS_ACCESS_KEY_ID', '');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', '');
+    vi.stubEnv('AWS_REGION', '');
+    vi.stubEnv('AWS_DEFAULT_REGION', '');
+    mockInputs({ 'storage-provider': 's3', 'team-id': 'my team' });
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      [
+        'Failed to start Turborepo Remote Cache Server: Invalid team-id "my team": may only contain letters, digits, ".", "_" and "-"',
+        'The storage-path input is required for the s3 provider',
+        'The AWS_ACCESS_KEY_ID environment variable is required for the s3 provider',
+        'The AWS_SECRET_ACCESS_KEY environment variable is required for the s3 provider',
+        'The s3 provider requires the s3-region input or the AWS_REGION environment variable',
+      ].join('\n')
+    );
+    expect(mockPortfinder.getPortPromise).not.toHaveBeenCalled();
+    expect(mockFs.open).not.toHaveBeenCalled();
+  });
+
+  it('should not export Turborepo variables until the server is ready', async () => {
+    mockWaitForServerReady.mockRejectedValue(
+      new Error(
+        'Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:3000'
+      )
+    );
+
+    await startCacheServer();
+
+    expect(mockCore.exportVariable).not.toHaveBeenCalled();
+  });
+
+  it('should stop a half-started supervisor and server', async () => {
+    mockWaitForServerReady.mockRejectedValue(
+      new Error(
+        'Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:3000'
+      )
+    );
+
+    await startCacheServer();
+
+    expect(process.kill).toHaveBeenCalledWith(-12345, 'SIGTERM');
+    expect(process.kill).not.toHaveBeenCalledWith(12345, 'SIGUSR2');
+  });
+
+  it('should keep the job running without a cache when fail-on-error is false', async () => {
+    mockInputs({ 'fail-on-error': 'false' });
+    mockWaitForServerReady.mockRejectedValue(
+      new Error(
+        'Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:3000'
+      )
+    );
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to start Turborepo Remote Cache Server, continuing without a remote cache: Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:3000',
+      { title: 'Cache Rocket' }
+    );
+    expect(mockCore.saveState).toHaveBeenCalledWith('cacheDisabled', 'true');
+    expect(mockCore.saveState).not.toHaveBeenCalledWith('serverPid', '12346');
+    expect(mockCore.exportVariable).not.toHaveBeenCalled();
+  });
+
+  it('should not point turbo at a server it stops when the manifest cannot be written', async () => {
+    mockInputs({ 'fail-on-error': 'false' });
+    mockFs.writeFile.mockRejectedValue(new Error('ENOSPC: no space left'));
+
+    await startCacheServer();
+
+    expect(process.kill).toHaveBeenCalledWith(-12345, 'SIGTERM');
+    expect(mockCore.saveState).toHaveBeenCalledWith('cacheDisabled', 'true');
+    expect(mockCore.exportVariable).not.toHaveBeenCalled();
+  });
+
+  it('should honor fail-on-error for invalid inputs', async () => {
+    mockInputs({ 'fail-on-error': 'FALSE', 'storage-provider': 'ftp' });
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+    expect(mockCore.saveState).toHaveBeenCalledWith('cacheDisabled', 'true');
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should run the bundled server when server-version matches it', async () => {
+    mockInputs({ 'server-version': 'v1.0.0' });
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      [expect.stringContaining('supervisor')],
+      expect.any(Object)
+    );
+  });
+
+  it('should fail without spawning when server-version is not bundled', async () => {
+    mockInputs({ 'server-version': '2.0.0' });
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to start Turborepo Remote Cache Server: Cache server version 2.0.0 is not available; this action bundles version 1.0.0'
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should fail clearly when the bundled server is missing', async () => {
+    mockFs.access = vi.fn().mockRejectedValue(new Error('ENOENT'));
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('The bundled cache server is missing')
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should mask the signature key and export it for turbo', async () => {
+    mockInputs({ 'signature-key': 'signing-key' });
+
+    await startCacheServer();
+
+    expect(mockCore.setSecret).toHaveBeenCalledWith('signing-key');
+    expect(mockCore.exportVariable).toHaveBeenCalledWith(
+      'TURBO_REMOTE_CACHE_SIGNATURE_KEY',
+      'signing-key'
+    );
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      expect.any(Array),
+      expect.objectContaining({
+        env: expect.objectContaining({ SIGNATURE_KEY: 'signing-key' }),
+      })
+    );
+    expect(mockWaitForServerReady).toHaveBeenCalledWith(
+      expect.objectContaining({ signatureKey: 'signing-key' })
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '   Artifact Signatures: required'
+    );
+  });
+
+  it('should mask encryption keys and hand them to the server', async () => {
+    mockInputs({
+      'encryption-key': 'current-secret-value\nprevious-secret-value',
+    });
+
+    await startCacheServer();
+
+    expect(mockCore.setSecret).toHaveBeenCalledWith('current-secret-value');
+    expect(mockCore.setSecret).toHaveBeenCalledWith('previous-secret-value');
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      expect.any(Array),
+      expect.objectContaining({
+        env: expect.objectContaining({
+          ENCRYPTION_KEYS: 'current-secret-value\nprevious-secret-value',
+        }),
+      })
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '   Encryption: aes-256-gcm (1 previous key(s) for decryption)'
+    );
+    expect(mockCore.saveState).toHaveBeenCalledWith('encrypted', 'true');
+  });
+
+  it('should not require signatures by default', async () => {
+    await startCacheServer();
+
+    expect(mockCore.exportVariable).not.toHaveBeenCalledWith(
+      'TURBO_REMOTE_CACHE_SIGNATURE_KEY',
+      expect.anything()
+    );
+    const [, , spawnOptions] = mockSpawn.mock.calls[0]!;
+    expect(spawnOptions?.env).not.toHaveProperty('SIGNATURE_KEY');
+  });
+
+  it('should scope the cache to the branch with read fallbacks', async () => {
+    vi.stubEnv('GITHUB_HEAD_REF', 'feature/login');
+    vi.stubEnv('GITHUB_REF', 'refs/pull/12/merge');
+    mockInputs({ scope: 'branch', 'fallback-namespaces': 'main, develop' });
+
+    await startCacheServer();
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      expect.any(Array),
+      expect.objectContaining({
+        env: expect.objectContaining({
+          CACHE_NAMESPACE: 'pr-12',
+          CACHE_FALLBACK_NAMESPACES: 'main,develop',
+        }),
+      })
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('   Namespace: pr-12');
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '   Read Fallbacks: main, develop'
+    );
+  });
+
+  it('should start a read-only server and log the mode', async () => {
+    mockInputs({ 'read-only': 'true' });
+
+    await startCacheServer();
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      expect.any(Array),
+      expect.objectContaining({
+        env: expect.objectContaining({ READ_ONLY: 'true' }),
+      })
+    );
+    expect(mockWaitForServerReady).toHaveBeenCalledWith(
+      expect.objectContaining({ readOnly: true })
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('   Mode: read-only');
+    expect(mockCore.saveState).toHaveBeenCalledWith('readOnly', 'true');
+  });
+
+  it('should turn read-only on automatically for fork pull requests', async () => {
+    vi.stubEnv('GITHUB_EVENT_NAME', 'pull_request');
+    vi.stubEnv('GITHUB_EVENT_PATH', '/github/workflow/event.json');
+    mockFs.readFile = vi.fn().mockImplementation(async (file: string) =>
+      file === '/github/workflow/event.json'
+        ? JSON.stringify({
+            pull_request: {
+              head: { repo: { full_name: 'someone/app' } },
+              base: { repo: { full_name: 'acme/app' } },
+            },
+          })
+        : JSON.stringify({ serverPid: 12346, restarts: [] })
+    );
+    mockInputs({ 'read-only': 'auto' });
+
+    await startCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith('   Mode: read-only (auto)');
+  });
+
+  it('should log read-write mode by default', async () => {
+    await startCacheServer();
+
+    expect(mockCore.info).toHaveBeenCalledWith('   Mode: read-write');
+    expect(mockCore.saveState).toHaveBeenCalledWith('readOnly', 'false');
+    expect(mockCore.saveState).toHaveBeenCalledWith(
+      'startedAt',
+      expect.stringMatching(/^\d+$/)
+    );
+  });
+
+  it('should bind and advertise the configured endpoints', async () => {
+    mockInputs({
+      'bind-address': '0.0.0.0',
+      'advertise-url': 'http://cache.internal:3000',
+    });
+
+    await startCacheServer();
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      expect.any(Array),
+      expect.objectContaining({
+        env: expect.objectContaining({ BIND_ADDRESS: '0.0.0.0' }),
+      })
+    );
+    expect(mockWaitForServerReady).toHaveBeenCalledWith(
+      expect.objectContaining({ baseUrl: 'http://127.0.0.1:3000' })
+    );
+    expect(mockCore.exportVariable).toHaveBeenCalledWith(
+      'TURBO_API',
+      'http://cache.internal:3000'
+    );
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'api-url',
+      'http://cache.internal:3000'
+    );
+  });
+
+  it('should export a container URL in docker mode', async () => {
+    vi.mocked(networkInterfaces).mockReturnValue({
+      docker0: [{ family: 'IPv4', address: '172.17.0.1' } as any],
+    });
+    mockInputs({ 'advertise-url': 'docker' });
+
+    await startCacheServer();
+
+    expect(mockCore.exportVariable).toHaveBeenCalledWith(
+      'TURBO_API',
+      'http://127.0.0.1:3000'
+    );
+    expect(mockCore.exportVariable).toHaveBeenCalledWith(
+      'TURBO_API_DOCKER',
+      'http://172.17.0.1:3000'
+    );
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'docker-api-url',
+      'http://172.17.0.1:3000'
+    );
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '   Docker API: http://172.17.0.1:3000'
+    );
+  });
+
+  it('should mask the token as soon as it is generated', async () => {
+    await startCacheServer();
+
+    expect(mockCore.setSecret).toHaveBeenCalledWith('0'.repeat(64));
+    expect(mockCore.setSecret.mock.invocationCallOrder[0]).toBeLessThan(
+      mockCore.getInput.mock.invocationCallOrder[0]!
+    );
+  });
+
+  it('should set connection outputs and write the manifest', async () => {
+    await startCacheServer();
+
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'api-url',
+      'http://127.0.0.1:3000'
+    );
+    expect(mockCore.setOutput).toHaveBeenCalledWith('port', 3000);
+    expect(mockCore.setOutput).toHaveBeenCalledWith('team', 'ci');
+    expect(mockCore.setOutput).toHaveBeenCalledWith('pid', 12346);
+    expect(mockCore.setOutput).toHaveBeenCalledWith('token', '0'.repeat(64));
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'read-only-token',
+      expect.stringMatching(/^[0-9a-f]{64}$/)
+    );
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'manifest-path',
+      path.join('/runner/temp', 'cache-rocket.json')
+    );
+
+    const [file, content, options] = mockFs.writeFile.mock.calls[0]!;
+    expect(file).toBe(path.join('/runner/temp', 'cache-rocket.json'));
+    expect(options).toEqual({ mode: 0o600 });
+    expect(JSON.parse(content as string)).toEqual({
+      apiUrl: 'http://127.0.0.1:3000',
+      token: '0'.repeat(64),
+      readOnlyToken: expect.stringMatching(/^[0-9a-f]{64}$/),
+      team: 'ci',
+      port: 3000,
+      pid: 12346,
+      supervisorPid: 12345,
+      readOnly: false,
+    });
+  });
+
+  it('should write the manifest where the caller asks', async () => {
+    await startCacheServer(undefined, {
+      manifestFile: path.join('.cache-rocket', 'cache-rocket.json'),
+    });
+
+    expect(mockFs.writeFile).toHaveBeenCalledWith(
+      path.join('.cache-rocket', 'cache-rocket.json'),
+      expect.any(String),
+      { mode: 0o600 }
+    );
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'manifest-path',
+      path.join('.cache-rocket', 'cache-rocket.json')
+    );
+  });
+
+  it('should use the token input and derive a distinct read-only token', async () => {
+    mockInputs({ token: 'shared-token-across-jobs' });
+
+    await startCacheServer();
+
+    const readOnlyToken = mockCore.setOutput.mock.calls.find(
+      ([name]) => name === 'read-only-token'
+    )?.[1];
+    expect(mockCore.setSecret).toHaveBeenCalledWith('shared-token-across-jobs');
+    expect(mockCore.setSecret).toHaveBeenCalledWith(readOnlyToken);
+    expect(readOnlyToken).not.toBe('shared-token-across-jobs');
+    expect(mockCore.exportVariable).toHaveBeenCalledWith(
+      'TURBO_TOKEN',
+      'shared-token-across-jobs'
+    );
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      expect.any(Array),
+      expect.objectContaining({
+        env: expect.objectContaining({
+          TURBO_TOKEN: 'shared-token-across-jobs',
+          TURBO_READ_ONLY_TOKEN: readOnlyToken,
+        }),
+      })
+    );
+  });
+
+  it('should merge the repository config file below the inputs', async () => {
+    vi.stubEnv('GITHUB_REF', 'refs/heads/main');
+    mockLoadConfigFile.mockResolvedValue({
+      path: '.github/cache-rocket.yml',
+      settings: { 'team-id': 'web', 'read-only': 'true' },
+      workflows: {},
+      branches: { main: { 'read-only': 'false' } },
+    });
+    mockInputs({ 'team-id': 'docs', token: 'shared-token-across-jobs' });
+
+    await startCacheServer();
+
+    expect(mockCore.exportVariable).toHaveBeenCalledWith('TURBO_TEAM', 'docs');
+    expect(mockCore.startGroup).toHaveBeenCalledWith(
+      '⚙️ Configuration (including .github/cache-rocket.yml)'
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('   team-id: docs (input)');
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '   read-only: false (branch main)'
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('   token: *** (input)');
+    expect(mockCore.info).toHaveBeenCalledWith('   Mode: read-write');
+  });
+
+  it('should let the config file set inputs the step leaves unset', async () => {
+    // The runner hands unset inputs their action.yml default, if any
+    const { readFileSync } = await vi.importActual<typeof import('fs')>('fs');
+    const action = parseYaml(readFileSync('action.yml', 'utf8')) as {
+      inputs: Record<string, { default?: string }>;
+    };
+    mockCore.getInput.mockImplementation(
+      (name: string) => action.inputs[name]?.default ?? ''
+    );
+    vi.stubEnv('GITHUB_REF', 'refs/heads/main');
+    mockLoadConfigFile.mockResolvedValue({
+      path: '.github/cache-rocket.yml',
+      settings: { 'team-id': 'web', scope: 'branch', 'read-only': 'true' },
+      workflows: {},
+      branches: {},
+    });
+
+    await startCacheServer();
+
+    expect(mockCore.exportVariable).toHaveBeenCalledWith('TURBO_TEAM', 'web');
+    expect(mockCore.info).toHaveBeenCalledWith('   Namespace: main');
+    expect(mockCore.info).toHaveBeenCalledWith('   Mode: read-only');
+  });
+
+  it('should ignore the config file for fork pull requests', async () => {
+    vi.stubEnv('GITHUB_EVENT_NAME', 'pull_request');
+    vi.stubEnv('GITHUB_EVENT_PATH', '/github/workflow/event.json');
+    mockFs.readFile = vi.fn().mockImplementation(async (file: string) =>
+      file === '/github/workflow/event.json'
+        ? JSON.stringify({
+            pull_request: {
+              head: { repo: { full_name: 'someone/app' } },
+              base: { repo: { full_name: 'acme/app' } },
+            },
+          })
+        : JSON.stringify({ serverPid: 12346, restarts: [] })
+    );
+    mockLoadConfigFile.mockResolvedValue({
+      path: '.github/cache-rocket.yml',
+      settings: { 'read-only': 'false', prune: 'true' },
+      workflows: {},
+      branches: {},
+    });
+    mockInputs({ 'read-only': 'auto' });
+
+    await startCacheServer();
+
+    expect(mockLoadConfigFile).not.toHaveBeenCalled();
+    expect(mockCore.info).toHaveBeenCalledWith(
+      '🔒 Ignoring the repository config file for a pull request from a fork'
+    );
+    expect(mockCore.info).toHaveBeenCalledWith('   Mode: read-only (auto)');
+    expect(mockCore.saveState).toHaveBeenCalledWith('prune', 'false');
+  });
+
+  it('should honor the fail-on-error input when the config file is invalid', async () => {
+    mockLoadConfigFile.mockRejectedValue(
+      new Error('Invalid .github/cache-rocket.yml:\nUnrecognized key: "prot"')
+    );
+    mockInputs({ 'fail-on-error': 'false' });
+
+    await startCacheServer();
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      expect.stringContaining('Unrecognized key: "prot"'),
+      { title: 'Cache Rocket' }
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
 });
@@ -1,44 +1,261 @@
 import * as core from '@actions/core';
 import { ChildProcess, spawn } from 'child_process';
+import { CiAdapter, githubActions } from './ci';
+import {
+  ConfigFile,
+  describeSettings,
+  loadConfigFile,
+  ResolvedSettings,
+  resolveSettings,
+} from './config-file';
+import {
+  FailOnErrorSchema,
+  parseActionInputs,
+  readActionInputs,
+} from './inputs';
+import { isForkPullRequest, resolveReadOnly } from './read-only';
+import { LOG_DIR, SERVER_ERROR_LOG_FILE, SERVER_LOG_FILE } from './server-logs';
+import { ServerEnv, ServerEnvSchema } from './server/env';
+import { CACHE_STATS_FILE } from './cache-stats';
+import { deriveReadOnlyToken } from './tokens';
+import { deriveSignatureKey } from './server/signature';
+import { ENCRYPTION_ALGORITHM } from './server/encryption';
+import { formatBytes } from './byte-size';
 import { promises as fs } from 'fs';
-import portfinder from 'portfinder';
+import path from 'path';
 import { randomBytes } from 'crypto';
-import waitPort from 'wait-port';
-import { z } from 'zod';
+import { readSupervisorState } from './supervisor/state';
+import { resolveEndpoints } from './endpoints';
+import { resolveNamespaces } from './namespaces';
+import { resolvePort } from './ports';
+import { SERVER_VERSION } from './server/version';
+import { tmpdir } from 'os';
+import { waitForServerReady } from './readiness';
+import { writeConnectionManifest } from './manifest';
 
-export const ServerEnvSchema = z.object({
-  PORT: z.string(),
-  TURBO_TOKEN: z.string(),
-  STORAGE_PROVIDER: z.string().optional(),
-  STORAGE_PATH: z.string().optional(),
-});
+export { ServerEnvSchema, type ServerEnv } from './server/env';
 
-export type ServerEnv = z.infer<typeof ServerEnvSchema>;
+export interface LaunchOptions {
+  /**
+   * Directory holding the supervisor and server bundles. ncc bundles them
+   * next to the action as dist/start/supervisor and dist/start/server; the
+   * supervisor runs the server and restarts it on crashes.
+   */
+  bundleDir?: string;
+  /** Where to write the connection manifest, if not the default location */
+  manifestFile?: string;
+}
+
+/** Where write-behind uploads are staged until they reach storage. */
+function asyncUploadsPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(env.RUNNER_TEMP ?? tmpdir(), 'cache-rocket-uploads');
+}
+
+/**
+ * Checks that the bundled server is present and is the requested version.
+ * Nothing is downloaded at runtime, so a different version cannot be used.
+ */
+async function verifyBundledServer(
+  bundleDir: string,
+  requestedVersion?: string
+): Promise<void> {
+  if (requestedVersion && requestedVersion !== SERVER_VERSION) {
+    throw new Error(
+      `Cache server version ${requestedVersion} is not available; this action bundles version ${SERVER_VERSION}`
+    );
+  }
+  for (const entrypoint of [
+    path.join(bundleDir, 'supervisor', 'index.js'),
+    path.join(bundleDir, 'server', 'index.js'),
+  ]) {
+    try {
+      await fs.access(entrypoint);
+    } catch {
+      throw new Error(
+        `The bundled cache server is missing ${entrypoint}; the action was not built correctly`
+      );
+    }
+  }
+}
+
+async function spawnDetached(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv
+): Promise<ChildProcess> {
+  // The child writes straight into the log files so output keeps being
+  // captured after this step exits; the post step displays them.
+  const stdout = await fs.open(SERVER_LOG_FILE, 'a');
+  const stderr = await fs.open(SERVER_ERROR_LOG_FILE, 'a');
 
-export async function startCacheServer(): Promise<void> {
   try {
-    const logDir = 'logs';
-    await fs.mkdir(logDir, { recursive: true });
+    const child = spawn(command, args, {
+      detached: true,
+      stdio: ['ignore', stdout.fd, stderr.fd],
+      env,
+    });
+    // Ensure the process doesn't keep the parent alive
+    child.unref();
+    return child;
+  } finally {
+    await Promise.all([stdout.close(), stderr.close()]);
+  }
+}
 
-    const port = await portfinder.getPortPromise();
-    const token = randomBytes(32).toString('hex');
+function logSettings(
+  ci: CiAdapter,
+  config: ConfigFile | undefined,
+  settings: ResolvedSettings
+): void {
+  const lines = describeSettings(settings);
+  ci.startGroup(
+    `⚙️ Configuration${config ? ` (including ${config.path})` : ''}`
+  );
+  for (const line of lines.length > 0 ? lines : ['all defaults']) {
+    ci.info(`   ${line}`);
+  }
+  ci.endGroup();
+}
 
-    const storageProvider = core.getInput('storage-provider');
-    const storagePath = core.getInput('storage-path');
-    const teamId = core.getInput('team-id') || 'ci';
-    const host = core.getInput('host') || 'http://127.0.0.1';
+function stopHalfStartedServer(supervisorPid: number): void {
+  try {
+    // The server shares the detached supervisor's process group
+    process.kill(-supervisorPid, 'SIGTERM');
+  } catch {
+    // The process already exited
+  }
+}
+
+export async function startCacheServer(
+  ci: CiAdapter = githubActions,
+  { bundleDir = __dirname, manifestFile }: LaunchOptions = {}
+): Promise<void> {
+  // Turbo run summaries older than this belong to earlier jobs
+  const startedAt = Date.now();
+  let failOnError = true;
+  let supervisorProcess: ChildProcess | undefined;
 
-    const turboApi = `${host}:${port}`;
+  try {
+    await fs.mkdir(LOG_DIR, { recursive: true });
 
-    core.exportVariable('TURBO_API', turboApi);
-    core.exportVariable('TURBO_TOKEN', token);
-    core.exportVariable('TURBO_TEAM', teamId);
+    const generatedToken = randomBytes(32).toString('hex');
+    ci.setSecret(generatedToken);
+
+    const actionInputs = readActionInputs(ci);
+    // Masked before anything else can log them
+    for (const secret of [
+      actionInputs.token,
+      actionInputs['signature-key'],
+      actionInputs['signature-secret'],
+      ...(actionInputs['encryption-key']
+        ?.split('\n')
+        .map((key) => key.trim()) ?? []),
+    ]) {
+      if (secret) {
+        ci.setSecret(secret);
+      }
+    }
+    // Resolved on its own first so invalid inputs also honor it
+    failOnError = FailOnErrorSchema.catch(true).parse(
+      actionInputs['fail-on-error']
+    );
+
+    // Shared settings from the repository, overridden by this step's inputs.
+    // A fork's pull request checks out the fork's copy, which could loosen
+    // read-only, scope or pruning for itself, so it is not read at all.
+    const forkPullRequest = await isForkPullRequest();
+    if (forkPullRequest) {
+      ci.info(
+        '🔒 Ignoring the repository config file for a pull request from a fork'
+      );
+    }
+    const config = forkPullRequest ? undefined : await loadConfigFile();
+    const settings = resolveSettings(config, actionInputs);
+    const rawInputs = settings.inputs;
+    // The config file may set it too
+    failOnError = FailOnErrorSchema.catch(true).parse(
+      rawInputs['fail-on-error']
+    );
+    logSettings(ci, config, settings);
+
+    // Validate every input up front so misconfiguration fails fast instead
+    // of surfacing as a server that never opens its port
+    const inputs = parseActionInputs(rawInputs);
+    const token = inputs.token ?? generatedToken;
+    const readOnlyToken = deriveReadOnlyToken(token);
+    ci.setSecret(readOnlyToken);
+    const storageProvider = inputs['storage-provider'];
+    const storagePath =
+      'storage-path' in inputs ? inputs['storage-path'] : undefined;
+    const storagePrefix = inputs['storage-prefix'];
+    const s3Endpoint = inputs['s3-endpoint'];
+    const s3Region = inputs['s3-region'];
+    const s3ForcePathStyle = inputs['s3-force-path-style'];
+    const teamId = inputs['team-id'];
+    const maxCacheSize = inputs['max-cache-size'];
+    const localTierPath = inputs['local-tier-path'];
+    const localTierSize = inputs['local-tier-size'];
+    const asyncUploadsDir = inputs['async-uploads']
+      ? asyncUploadsPath()
+      : undefined;
+    const signatureSecret = inputs['signature-secret'];
+    const signatureKey =
+      inputs['signature-key'] ??
+      (signatureSecret && deriveSignatureKey(signatureSecret, teamId));
+    if (signatureKey) {
+      ci.setSecret(signatureKey);
+    }
+    const encryptionKeys = inputs['encryption-key'] ?? [];
+    const readOnly = await resolveReadOnly(inputs['read-only']);
+    const namespaces = await resolveNamespaces(
+      inputs.scope,
+      inputs['fallback-namespaces']
+    );
+
+    const port = await resolvePort({
+      port: inputs.port,
+      portRange: inputs['port-range'],
+    });
+
+    await verifyBundledServer(bundleDir, inputs['server-version']);
+
+    const endpoints = resolveEndpoints({
+      port,
+      host: inputs.host,
+      bindAddress: inputs['bind-address'],
+      advertiseUrl: inputs['advertise-url'],
+    });
+    const turboApi = endpoints.apiUrl;
 
     const serverEnvData: ServerEnv = {
       PORT: port.toString(),
+      BIND_ADDRESS: endpoints.bindAddress,
       TURBO_TOKEN: token,
-      ...(storageProvider && { STORAGE_PROVIDER: storageProvider }),
+      TURBO_READ_ONLY_TOKEN: readOnlyToken,
+      CACHE_STATS_FILE,
+      STORAGE_PROVIDER: storageProvider,
       ...(storagePath && { STORAGE_PATH: storagePath }),
+      ...(storagePrefix && { STORAGE_PREFIX: storagePrefix }),
+      ...(s3Endpoint && { S3_ENDPOINT: s3Endpoint }),
+      ...(s3Region && { S3_REGION: s3Region }),
+      ...(s3ForcePathStyle && { S3_FORCE_PATH_STYLE: 'true' }),
+      ...(maxCacheSize !== undefined && {
+        MAX_CACHE_SIZE: maxCacheSize.toString(),
+      }),
+      ...(localTierPath && { LOCAL_TIER_PATH: localTierPath }),
+      ...(localTierSize !== undefined && {
+        LOCAL_TIER_SIZE: localTierSize.toString(),
+      }),
+      ...(asyncUploadsDir && { ASYNC_UPLOADS_DIR: asyncUploadsDir }),
+      ...(signatureKey && { SIGNATURE_KEY: signatureKey }),
+      ...(encryptionKeys.length > 0 && {
+        ENCRYPTION_KEYS: encryptionKeys.join('\n'),
+      }),
+      ...(namespaces && {
+        CACHE_NAMESPACE: namespaces.write,
+        CACHE_FALLBACK_NAMESPACES: namespaces.read.join(','),
+      }),
+      ...(readOnly && { READ_ONLY: 'true' }),
     };
 
     const validatedEnv = ServerEnvSchema.parse(serverEnvData);
@@ -48,47 +265,173 @@ export async function startCacheServer(): Promise<void> {
       ...validatedEnv,
     };
 
-    const serverProcess: ChildProcess = spawn(
-      'npx',
-      ['turborepo-remote-cache'],
-      {
-        detached: true,
-        stdio: 'ignore',
-        env,
-      }
+    supervisorProcess = await spawnDetached(
+      process.execPath,
+      [path.join(bundleDir, 'supervisor', 'index.js')],
+      env
     );
+    await waitForServerReady({
+      baseUrl: endpoints.probeUrl,
+      token,
+      teamId,
+      timeoutMs: inputs['startup-timeout'] * 1000,
+      canary: inputs['readiness-canary'],
+      signatureKey,
+      readOnly,
+      serverProcess: supervisorProcess,
+      stderrFile: SERVER_ERROR_LOG_FILE,
+      version: SERVER_VERSION,
+    });
 
-    // Ensure the process doesn't keep the parent alive
-    serverProcess.unref();
+    // From here on a crashed server is restarted instead of failing startup
+    if (supervisorProcess.pid) {
+      process.kill(supervisorProcess.pid, 'SIGUSR2');
+    }
+    const serverPid = (await readSupervisorState())?.serverPid;
 
-    const result = await waitPort({
-      host: 'localhost',
-      port,
-      timeout: 30000,
-    });
+    const manifestPath = await writeConnectionManifest(
+      {
+        apiUrl: turboApi,
+        ...(endpoints.dockerApiUrl && { dockerApiUrl: endpoints.dockerApiUrl }),
+        token,
+        readOnlyToken,
+        team: teamId,
+        port,
+        pid: serverPid,
+        supervisorPid: supervisorProcess.pid,
+        ...(signatureKey && { signatureKey }),
+        ...(namespaces && { namespace: namespaces.write }),
+        readOnly,
+      },
+      manifestFile
+    );
 
-    if (!result.open) {
-      throw new Error(`Port ${port} did not open within 30 seconds`);
+    ci.setOutput('api-url', turboApi);
+    if (endpoints.dockerApiUrl) {
+      ci.setOutput('docker-api-url', endpoints.dockerApiUrl);
     }
+    ci.setOutput('port', port);
+    ci.setOutput('team', teamId);
+    ci.setOutput('pid', serverPid ?? '');
+    ci.setOutput('token', token);
+    ci.setOutput('read-only-token', readOnlyToken);
+    ci.setOutput('manifest-path', manifestPath);
 
-    core.info(`✅ Turborepo Remote Cache Server started`);
-    core.info(`   PID: ${serverProcess.pid}`);
-    core.info(`   Port: ${port}`);
-    core.info(`   API: ${turboApi}`);
-    core.info(`   Team: ${teamId}`);
+    ci.info(`✅ Turborepo Remote Cache Server started`);
+    ci.info(`   Version: ${SERVER_VERSION}`);
+    ci.info(`   PID: ${serverPid}`);
+    ci.info(`   Supervisor PID: ${supervisorProcess.pid}`);
+    ci.info(`   Port: ${port}`);
+    ci.info(`   API: ${turboApi}`);
+    if (endpoints.dockerApiUrl) {
+      ci.info(`   Docker API: ${endpoints.dockerApiUrl}`);
+    }
+    ci.info(`   Bind Address: ${endpoints.bindAddress}`);
+    ci.info(`   Team: ${teamId}`);
+    ci.info(`   Manifest: ${manifestPath}`);
+    ci.info(
+      `   Mode: ${readOnly ? 'read-only' : 'read-write'}${inputs['read-only'] === 'auto' ? ' (auto)' : ''}`
+    );
 
-    if (storageProvider) {
-      core.info(`   Storage Provider: ${storageProvider}`);
+    if (storageProvider !== 'memory') {
+      ci.info(`   Storage Provider: ${storageProvider}`);
     }
     if (storagePath) {
-      core.info(`   Storage Path: ${storagePath}`);
+      ci.info(`   Storage Path: ${storagePath}`);
+    }
+    if (storagePrefix) {
+      ci.info(`   Storage Prefix: ${storagePrefix}/`);
+    }
+    if (s3Endpoint) {
+      ci.info(
+        `   S3 Endpoint: ${s3Endpoint}${s3ForcePathStyle ? ' (path-style)' : ''}`
+      );
+    }
+    if (s3Region) {
+      ci.info(`   S3 Region: ${s3Region}`);
+    }
+    if (namespaces) {
+      ci.info(`   Namespace: ${namespaces.write}`);
+      if (namespaces.read.length > 0) {
+        ci.info(`   Read Fallbacks: ${namespaces.read.join(', ')}`);
+      }
+    }
+    if (maxCacheSize !== undefined) {
+      ci.info(`   Max Cache Size: ${formatBytes(maxCacheSize)}`);
+    }
+    if (localTierPath) {
+      ci.info(
+        `   Local Tier: ${localTierPath}${localTierSize === undefined ? '' : ` (max ${formatBytes(localTierSize)})`}`
+      );
+    }
+    if (asyncUploadsDir) {
+      ci.info(`   Async Uploads: staged in ${asyncUploadsDir}`);
+    }
+    if (signatureKey) {
+      ci.info('   Artifact Signatures: required');
     }
+    if (encryptionKeys.length > 0) {
+      ci.info(
+        `   Encryption: ${ENCRYPTION_ALGORITHM}${encryptionKeys.length > 1 ? ` (${encryptionKeys.length - 1} previous key(s) for decryption)` : ''}`
+      );
+    }
+    if (inputs.prune !== 'false') {
+      ci.info(
+        `   Prune: artifacts unused for ${inputs['retention-days']} days${inputs.prune === 'dry-run' ? ' (dry run)' : ''}`
+      );
+    }
+
+    ci.saveState('serverPid', serverPid?.toString() ?? '');
+    ci.saveState('supervisorPid', supervisorProcess.pid?.toString() ?? '');
+    ci.saveState('serverPort', port.toString());
+    ci.saveState('startedAt', startedAt.toString());
+    ci.saveState('storageProvider', storageProvider);
+    ci.saveState('storagePath', storagePath ?? '');
+    ci.saveState('storagePrefix', storagePrefix ?? '');
+    ci.saveState('s3Endpoint', s3Endpoint ?? '');
+    ci.saveState('s3Region', s3Region ?? '');
+    ci.saveState('s3ForcePathStyle', s3ForcePathStyle.toString());
+    ci.saveState('maxCacheSize', maxCacheSize?.toString() ?? '');
+    ci.saveState('shutdownTimeout', inputs['shutdown-timeout'].toString());
+    ci.saveState('readOnly', readOnly.toString());
+    ci.saveState('encrypted', (encryptionKeys.length > 0).toString());
+    ci.saveState('asyncUploads', (!!asyncUploadsDir).toString());
+    ci.saveState(
+      'uploadDrainTimeout',
+      inputs['upload-drain-timeout'].toString()
+    );
+    ci.saveState('teamId', teamId);
+    ci.saveState('prune', inputs.prune);
+    ci.saveState('retentionDays', inputs['retention-days'].toString());
 
-    core.saveState('serverPid', serverProcess.pid?.toString() ?? '');
-    core.saveState('serverPort', port.toString());
+    // Only point turbo at the cache once it is reachable and nothing else can
+    // fail startup, which would stop the server again
+    ci.exportVariable('TURBO_API', turboApi);
+    ci.exportVariable('TURBO_TOKEN', token);
+    ci.exportVariable('TURBO_TEAM', teamId);
+    if (endpoints.dockerApiUrl) {
+      ci.exportVariable('TURBO_API_DOCKER', endpoints.dockerApiUrl);
+    }
+    if (signatureKey) {
+      ci.exportVariable('TURBO_REMOTE_CACHE_SIGNATURE_KEY', signatureKey);
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    core.setFailed(`Failed to start Turborepo Remote Cache Server: ${message}`);
+
+    if (supervisorProcess?.pid) {
+      stopHalfStartedServer(supervisorProcess.pid);
+    }
+
+    if (failOnError) {
+      ci.setFailed(`Failed to start Turborepo Remote Cache Server: ${message}`);
+      return;
+    }
+
+    ci.warning(
+      `Failed to start Turborepo Remote Cache Server, continuing without a remote cache: ${message}`,
+      { title: 'Cache Rocket' }
+    );
+    ci.saveState('cacheDisabled', 'true');
   }
 }
 
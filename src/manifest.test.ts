@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  connectionManifestPath,
+  writeConnectionManifest,
+} from '../src/manifest';
+
+describe('manifest.ts - Connection Manifest', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should live in RUNNER_TEMP, falling back to the CLI state directory', () => {
+    expect(connectionManifestPath({ RUNNER_TEMP: '/runner/temp' })).toBe(
+      path.join('/runner/temp', 'cache-rocket.json')
+    );
+    expect(connectionManifestPath({})).toBe(
+      path.join('.cache-rocket', 'cache-rocket.json')
+    );
+  });
+
+  it('should write the manifest readable only by its owner', async () => {
+    const file = await writeConnectionManifest(
+      {
+        apiUrl: 'http://127.0.0.1:3000',
+        token: 'secret',
+        readOnlyToken: 'read-only-secret',
+        team: 'ci',
+        port: 3000,
+        readOnly: false,
+      },
+      path.join(tempDir, '.cache-rocket', 'cache-rocket.json')
+    );
+
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toMatchObject({
+      apiUrl: 'http://127.0.0.1:3000',
+      token: 'secret',
+    });
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+  });
+});
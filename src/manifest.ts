@@ -0,0 +1,50 @@
+import { DEFAULT_STATE_FILE } from './ci/generic';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const CONNECTION_MANIFEST_NAME = 'cache-rocket.json';
+
+/**
+ * Connection details for scripts and composite actions that talk to the
+ * cache server without going through turbo's environment variables.
+ */
+export interface ConnectionManifest {
+  apiUrl: string;
+  dockerApiUrl?: string;
+  token: string;
+  /** Accepted for reads only */
+  readOnlyToken: string;
+  team: string;
+  port: number;
+  pid?: number;
+  supervisorPid?: number;
+  signatureKey?: string;
+  namespace?: string;
+  readOnly: boolean;
+}
+
+/**
+ * The job's temp directory on Actions. Elsewhere it sits with the CLI's
+ * state rather than in the system temp dir, which concurrent runs and other
+ * users share.
+ */
+export function connectionManifestPath(
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  return path.join(
+    env.RUNNER_TEMP ?? path.dirname(DEFAULT_STATE_FILE),
+    CONNECTION_MANIFEST_NAME
+  );
+}
+
+/** Writes the manifest readable only by the runner user, as it holds the token. */
+export async function writeConnectionManifest(
+  manifest: ConnectionManifest,
+  file: string = connectionManifestPath()
+): Promise<string> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(manifest, null, 2)}\n`, {
+    mode: 0o600,
+  });
+  return file;
+}
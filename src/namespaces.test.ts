@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  currentBranch,
+  resolveNamespaces,
+  toNamespace,
+} from '../src/namespaces';
+
+describe('namespaces.ts - Cache Namespaces', () => {
+  it('should prefer the pull request head branch over the ref', () => {
+    expect(
+      currentBranch({
+        GITHUB_HEAD_REF: 'feature/login',
+        GITHUB_REF: 'refs/pull/12/merge',
+      })
+    ).toBe('feature/login');
+    expect(currentBranch({ GITHUB_REF: 'refs/heads/main' })).toBe('main');
+    expect(currentBranch({ GITHUB_REF: 'refs/tags/v1.0.0' })).toBe('v1.0.0');
+    expect(currentBranch({})).toBeUndefined();
+  });
+
+  it('should turn branch names into a single safe path segment', () => {
+    expect(toNamespace('main')).toBe('main');
+    expect(toNamespace('release-1.2_x')).toBe('release-1.2_x');
+    expect(toNamespace('feature/login')).toBe('feature-login-df7c7aeb');
+    expect(toNamespace('fix/../escape')).toBe('fix-..-escape-16286389');
+    expect(toNamespace('../main')).toBe('main-485d6d6b');
+  });
+
+  it('should keep rewritten and reserved names apart from real ones', () => {
+    expect(toNamespace('feature/x')).not.toBe(toNamespace('feature-x'));
+    expect(toNamespace('pr-12')).toBe('pr-12-809d3406');
+  });
+
+  it('should not namespace the team scope', async () => {
+    expect(await resolveNamespaces('team', ['main'], {})).toBeUndefined();
+  });
+
+  it('should write to the branch and read through to the fallbacks', async () => {
+    expect(
+      await resolveNamespaces('branch', ['main', 'release/1.x'], {
+        GITHUB_REF: 'refs/heads/feature/login',
+      })
+    ).toEqual({
+      write: 'feature-login-df7c7aeb',
+      read: ['main', 'release-1.x-81caa6e9'],
+    });
+  });
+
+  it('should not fall back to the branch being written', async () => {
+    expect(
+      await resolveNamespaces('branch', ['main', 'main'], {
+        GITHUB_REF: 'refs/heads/main',
+      })
+    ).toEqual({ write: 'main', read: [] });
+  });
+
+  it('should write pull requests to their own namespace, never the head branch', async () => {
+    // A fork's main branch must not write to the base repository's main
+    expect(
+      await resolveNamespaces('branch', ['main'], {
+        GITHUB_HEAD_REF: 'main',
+        GITHUB_REF: 'refs/pull/12/merge',
+      })
+    ).toEqual({ write: 'pr-12', read: ['main'] });
+  });
+
+  describe('pull_request_target', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should take the pull request number from the event payload', async () => {
+      const eventPath = path.join(tempDir, 'event.json');
+      writeFileSync(eventPath, JSON.stringify({ pull_request: { number: 7 } }));
+
+      expect(
+        await resolveNamespaces('branch', ['main'], {
+          GITHUB_HEAD_REF: 'main',
+          GITHUB_REF: 'refs/heads/main',
+          GITHUB_EVENT_PATH: eventPath,
+        })
+      ).toEqual({ write: 'pr-7', read: ['main'] });
+      await expect(
+        resolveNamespaces('branch', ['main'], {
+          GITHUB_HEAD_REF: 'main',
+          GITHUB_REF: 'refs/heads/main',
+        })
+      ).rejects.toThrow('Could not determine the pull request number');
+    });
+  });
+
+  it('should fail when the branch cannot be determined', async () => {
+    await expect(resolveNamespaces('branch', ['main'], {})).rejects.toThrow(
+      'Could not determine the branch for the branch scope'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+
+export const CACHE_SCOPES = ['team', 'branch'] as const;
+
+export type CacheScope = (typeof CACHE_SCOPES)[number];
+
+export const DEFAULT_FALLBACK_NAMESPACES = ['main'];
+
+// Comma or newline separated, so multi-line YAML inputs work too
+export const NamespaceListSchema = z.string().transform((value) =>
+  value
+    .split(/[,\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean)
+);
+
+export interface CacheNamespaces {
+  /** Namespace uploads are written to */
+  write: string;
+  /** Read-only namespaces consulted in order after `write` misses */
+  read: string[];
+}
+
+// Reserved for pull requests, which never write to a branch's namespace
+const PULL_REQUEST_NAMESPACE = /^pr-\d+$/;
+
+/**
+ * Maps a branch name onto a single storage path segment. Branch names may
+ * contain slashes and other characters storage keys cannot, so rewritten
+ * names get a hash suffix to keep e.g. `feature/x` and `feature-x` apart.
+ */
+export function toNamespace(branch: string): string {
+  const namespace = branch
+    .replace(/[^A-Za-z0-9_.-]+/g, '-')
+    .replace(/^[.-]+/, '');
+  if (namespace === branch && !PULL_REQUEST_NAMESPACE.test(branch)) {
+    return namespace;
+  }
+  const suffix = createHash('sha256').update(branch).digest('hex').slice(0, 8);
+  return namespace ? `${namespace}-${suffix}` : suffix;
+}
+
+/** The branch a workflow runs for: the PR's head branch, else the ref. */
+export function currentBranch(
+  env: NodeJS.ProcessEnv = process.env
+): string | undefined {
+  if (env.GITHUB_HEAD_REF) {
+    return env.GITHUB_HEAD_REF;
+  }
+  return env.GITHUB_REF?.replace(/^refs\/(heads|tags)\//, '');
+}
+
+interface PullRequestEvent {
+  pull_request?: { number?: number };
+}
+
+/**
+ * The number of the pull request a workflow runs for. `pull_request_target`
+ * runs on the base branch's ref, so fall back to the event payload.
+ */
+async function pullRequestNumber(
+  env: NodeJS.ProcessEnv
+): Promise<number | undefined> {
+  const ref = /^refs\/pull\/(\d+)\//.exec(env.GITHUB_REF ?? '');
+  if (ref) {
+    return Number(ref[1]);
+  }
+  if (!env.GITHUB_EVENT_PATH) {
+    return undefined;
+  }
+  const event = JSON.parse(
+    await fs.readFile(env.GITHUB_EVENT_PATH, 'utf8')
+  ) as PullRequestEvent;
+  return event.pull_request?.number;
+}
+
+/**
+ * Resolves the namespaces the cache server reads and writes for `scope`.
+ * The `team` scope shares one cache per team and needs no namespaces.
+ *
+ * Pull requests write to `pr-<number>` rather than their head branch, which
+ * a fork can name after any branch of the base repository.
+ */
+export async function resolveNamespaces(
+  scope: CacheScope,
+  fallbacks: string[] = DEFAULT_FALLBACK_NAMESPACES,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<CacheNamespaces | undefined> {
+  if (scope === 'team') {
+    return undefined;
+  }
+
+  let write: string | undefined;
+  if (env.GITHUB_HEAD_REF) {
+    const number = await pullRequestNumber(env);
+    if (number === undefined) {
+      throw new Error(
+        'Could not determine the pull request number for the branch scope'
+      );
+    }
+    write = `pr-${number}`;
+  } else {
+    const branch = currentBranch(env);
+    write = branch && toNamespace(branch);
+  }
+  if (!write) {
+    throw new Error(
+      'Could not determine the branch for the branch scope: GITHUB_HEAD_REF and GITHUB_REF are not set'
+    );
+  }
+  const read = [...new Set(fallbacks.map(toNamespace))].filter(
+    (namespace) => namespace && namespace !== write
+  );
+  return { write, read };
+}
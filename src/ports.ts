@@ -0,0 +1,60 @@
+import portfinder from 'portfinder';
+import { z } from 'zod';
+
+export const MIN_PORT = 1;
+export const MAX_PORT = 65535;
+
+export const PortSchema = z
+  .string()
+  .regex(/^\d+$/, { message: 'must be numeric', abort: true })
+  .refine((value) => Number(value) >= MIN_PORT && Number(value) <= MAX_PORT, {
+    message: `must be between ${MIN_PORT} and ${MAX_PORT}`,
+  });
+
+export const PortRangeSchema = z
+  .string()
+  .regex(/^\d+\s*-\s*\d+$/, {
+    message: 'must look like "4000-4100"',
+    abort: true,
+  })
+  .transform((value) => {
+    const [start, end] = value.split('-').map((part) => Number(part.trim()));
+    return { start: start ?? 0, end: end ?? 0 };
+  })
+  .refine(
+    ({ start, end }) => start >= MIN_PORT && end <= MAX_PORT && start <= end,
+    {
+      message: `must be an ascending range between ${MIN_PORT} and ${MAX_PORT}`,
+    }
+  );
+
+export type PortRange = z.infer<typeof PortRangeSchema>;
+
+export interface PortOptions {
+  port?: number;
+  portRange?: PortRange;
+}
+
+export async function resolvePort({
+  port,
+  portRange,
+}: PortOptions): Promise<number> {
+  if (port) {
+    try {
+      return await portfinder.getPortPromise({ port, stopPort: port });
+    } catch {
+      throw new Error(`Port ${port} is already in use`);
+    }
+  }
+
+  if (portRange) {
+    const { start, end } = portRange;
+    try {
+      return await portfinder.getPortPromise({ port: start, stopPort: end });
+    } catch {
+      throw new Error(`No free port available in range ${start}-${end}`);
+    }
+  }
+
+  return portfinder.getPortPromise();
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { MemoryStorage } from '../src/server/storage/memory';
+import { pruneArtifacts } from '../src/prune';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function seed(): Promise<MemoryStorage> {
+  const storage = new MemoryStorage();
+  await storage.write('ci/old', Readable.from(['12345']), {});
+  await storage.write('ci/new', Readable.from(['123']), {});
+  await storage.write('other/old', Readable.from(['1']), {});
+  return storage;
+}
+
+describe('prune.ts - Artifact Pruning', () => {
+  it('should delete artifacts unused within the retention window', async () => {
+    const storage = await seed();
+    const pruned: string[] = [];
+
+    const result = await pruneArtifacts(storage, {
+      prefix: 'ci/',
+      retentionDays: 7,
+      now: new Date(Date.now() + 7 * DAY_MS + 1000),
+      onPrune: (key) => pruned.push(key),
+    });
+
+    expect(result).toEqual({ artifacts: 2, bytes: 8 });
+    expect(pruned).toEqual(['ci/old', 'ci/new']);
+    expect(await storage.exists('ci/old')).toBe(false);
+    expect(await storage.exists('other/old')).toBe(true);
+  });
+
+  it('should keep recently used artifacts', async () => {
+    const storage = await seed();
+
+    const result = await pruneArtifacts(storage, {
+      prefix: 'ci/',
+      retentionDays: 7,
+      now: new Date(Date.now() + 6 * DAY_MS),
+    });
+
+    expect(result).toEqual({ artifacts: 0, bytes: 0 });
+    expect(await storage.exists('ci/old')).toBe(true);
+  });
+
+  it('should only report what it would delete in a dry run', async () => {
+    const storage = await seed();
+
+    const result = await pruneArtifacts(storage, {
+      prefix: 'ci/',
+      retentionDays: 1,
+      dryRun: true,
+      now: new Date(Date.now() + 2 * DAY_MS),
+    });
+
+    expect(result).toEqual({ artifacts: 2, bytes: 8 });
+    expect(await storage.exists('ci/old')).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { StorageProvider } from './server/storage';
+import { z } from 'zod';
+
+export const PRUNE_MODES = ['false', 'true', 'dry-run'] as const;
+
+export type PruneMode = (typeof PRUNE_MODES)[number];
+
+export const PruneModeSchema = z
+  .string()
+  .transform((value) => value.toLowerCase())
+  .pipe(
+    z.enum(PRUNE_MODES, {
+      error: () => `must be one of ${PRUNE_MODES.join(', ')}`,
+    })
+  );
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PruneOptions {
+  /** Only artifacts whose keys start with this are considered */
+  prefix: string;
+  retentionDays: number;
+  /** Count what would be deleted without deleting it */
+  dryRun?: boolean;
+  now?: Date;
+  onPrune?: (key: string) => void;
+}
+
+export interface PruneResult {
+  artifacts: number;
+  bytes: number;
+}
+
+/**
+ * Deletes artifacts that were not read or written within the retention
+ * window. The whole listing is taken first so deletions cannot disturb
+ * providers that page through it.
+ */
+export async function pruneArtifacts(
+  storage: StorageProvider,
+  {
+    prefix,
+    retentionDays,
+    dryRun = false,
+    now = new Date(),
+    onPrune,
+  }: PruneOptions
+): Promise<PruneResult> {
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  const stale = [];
+  for await (const artifact of storage.list(prefix)) {
+    if (artifact.lastUsedAt.getTime() < cutoff) {
+      stale.push(artifact);
+    }
+  }
+
+  const result: PruneResult = { artifacts: 0, bytes: 0 };
+  for (const artifact of stale) {
+    if (!dryRun) {
+      await storage.delete(artifact.key);
+    }
+    onPrune?.(artifact.key);
+    result.artifacts += 1;
+    result.bytes += artifact.size;
+  }
+  return result;
+}
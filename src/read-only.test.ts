@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { isForkPullRequest, resolveReadOnly } from '../src/read-only';
+
+describe('read-only.ts - Read-only Mode', () => {
+  let tempDir: string;
+
+  function pullRequestEnv(head: string | null, base = 'acme/app') {
+    const eventPath = path.join(tempDir, 'event.json');
+    writeFileSync(
+      eventPath,
+      JSON.stringify({
+        pull_request: {
+          head: { repo: head === null ? null : { full_name: head } },
+          base: { repo: { full_name: base } },
+        },
+      })
+    );
+    return { GITHUB_EVENT_NAME: 'pull_request', GITHUB_EVENT_PATH: eventPath };
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should detect pull requests from forks', async () => {
+    expect(await isForkPullRequest(pullRequestEnv('someone/app'))).toBe(true);
+    expect(await isForkPullRequest(pullRequestEnv(null))).toBe(true);
+    expect(await isForkPullRequest(pullRequestEnv('acme/app'))).toBe(false);
+  });
+
+  it('should not treat other events as fork pull requests', async () => {
+    expect(
+      await isForkPullRequest({
+        ...pullRequestEnv('someone/app'),
+        GITHUB_EVENT_NAME: 'push',
+      })
+    ).toBe(false);
+    expect(await isForkPullRequest({})).toBe(false);
+  });
+
+  it('should only inspect the event in auto mode', async () => {
+    const env = pullRequestEnv('someone/app');
+
+    expect(await resolveReadOnly('auto', env)).toBe(true);
+    expect(await resolveReadOnly('false', env)).toBe(false);
+    expect(await resolveReadOnly('true', {})).toBe(true);
+  });
+});
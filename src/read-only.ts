@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+
+export const READ_ONLY_MODES = ['true', 'false', 'auto'] as const;
+
+export type ReadOnlyMode = (typeof READ_ONLY_MODES)[number];
+
+export const ReadOnlyModeSchema = z
+  .string()
+  .transform((value) => value.toLowerCase())
+  .pipe(
+    z.enum(READ_ONLY_MODES, {
+      error: () => `must be one of ${READ_ONLY_MODES.join(', ')}`,
+    })
+  );
+
+interface PullRequestEvent {
+  pull_request?: {
+    head?: { repo?: { full_name?: string } | null };
+    base?: { repo?: { full_name?: string } };
+  };
+}
+
+/**
+ * Whether the workflow runs for a pull request opened from a fork, whose
+ * code should be able to read the cache but not write to it.
+ */
+export async function isForkPullRequest(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<boolean> {
+  if (env.GITHUB_EVENT_NAME !== 'pull_request' || !env.GITHUB_EVENT_PATH) {
+    return false;
+  }
+  const event = JSON.parse(
+    await fs.readFile(env.GITHUB_EVENT_PATH, 'utf8')
+  ) as PullRequestEvent;
+  const head = event.pull_request?.head?.repo?.full_name;
+  const base = event.pull_request?.base?.repo?.full_name;
+  // A deleted fork has no head repository
+  return head !== base;
+}
+
+export async function resolveReadOnly(
+  mode: ReadOnlyMode,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<boolean> {
+  return mode === 'auto' ? isForkPullRequest(env) : mode === 'true';
+}
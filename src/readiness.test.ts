@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { waitForServerReady } from '../src/readiness';
+import { CacheServerOptions, createCacheServer } from '../src/server/app';
+import { CacheStatsRecorder } from '../src/cache-stats';
+import { createLogger } from '../src/server/logger';
+import { MemoryStorage } from '../src/server/storage/memory';
+import { SERVER_VERSION } from '../src/server/version';
+import { StorageProvider } from '../src/server/storage';
+
+const TOKEN = 'test-token';
+
+describe('readiness.ts - Readiness Probe', () => {
+  let server: http.Server | undefined;
+  let recorder: CacheStatsRecorder;
+  let tempDir: string;
+
+  async function start(
+    storage: StorageProvider = new MemoryStorage(),
+    options: Pick<CacheServerOptions, 'signatureKey' | 'readOnly'> = {}
+  ) {
+    server = createCacheServer({
+      token: TOKEN,
+      storage,
+      recorder,
+      logger: createLogger('error', () => undefined),
+      ...options,
+    });
+    await new Promise<void>((resolve) =>
+      server!.listen(0, '127.0.0.1', () => resolve())
+    );
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function options(baseUrl: string) {
+    return { baseUrl, token: TOKEN, teamId: 'ci', timeoutMs: 2000 };
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    recorder = new CacheStatsRecorder(path.join(tempDir, 'stats.json'));
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should resolve once the status endpoint answers', async () => {
+    const baseUrl = await start();
+
+    await expect(waitForServerReady(options(baseUrl))).resolves.toBe(undefined);
+  });
+
+  it('should fail at once when the server reports another version', async () => {
+    const baseUrl = await start();
+
+    await expect(
+      waitForServerReady({
+        ...options(baseUrl),
+        timeoutMs: 30000,
+        version: '0.0.0-stale',
+      })
+    ).rejects.toThrow(
+      `The bundled cache server reports version "${SERVER_VERSION}" but 0.0.0-stale was expected`
+    );
+    await expect(
+      waitForServerReady({ ...options(baseUrl), version: SERVER_VERSION })
+    ).resolves.toBe(undefined);
+  });
+
+  it('should round-trip a canary artifact without counting it', async () => {
+    const storage = new MemoryStorage();
+    const baseUrl = await start(storage);
+
+    await waitForServerReady({ ...options(baseUrl), canary: true });
+
+    expect(await storage.exists('ci/cache-rocket-readiness-canary')).toBe(true);
+    expect(recorder.snapshot()).toMatchObject({ hits: 0, uploads: 0 });
+  });
+
+  it('should sign the canary when the server requires signatures', async () => {
+    const storage = new MemoryStorage();
+    const baseUrl = await start(storage, { signatureKey: 'signing-key' });
+
+    await waitForServerReady({
+      ...options(baseUrl),
+      canary: true,
+      signatureKey: 'signing-key',
+    });
+
+    expect(await storage.exists('ci/cache-rocket-readiness-canary')).toBe(true);
+    expect(recorder.snapshot().rejectedUploads).toBe(0);
+  });
+
+  it('should only look the canary up when the server is read-only', async () => {
+    const storage = new MemoryStorage();
+    const baseUrl = await start(storage, { readOnly: true });
+
+    await waitForServerReady({
+      ...options(baseUrl),
+      canary: true,
+      readOnly: true,
+    });
+
+    expect(await storage.exists('ci/cache-rocket-readiness-canary')).toBe(
+      false
+    );
+  });
+
+  it('should fail the canary when storage is unreachable', async () => {
+    const storage = new MemoryStorage();
+    storage.write = () => Promise.reject(new Error('bucket not found'));
+    const baseUrl = await start(storage);
+
+    await expect(
+      waitForServerReady({ ...options(baseUrl), canary: true, timeoutMs: 300 })
+    ).rejects.toThrow(
+      /^Cache server was not ready within 0.3 seconds: PUT \/v8\/artifacts\/cache-rocket-readiness-canary\?teamId=ci returned HTTP 500$/
+    );
+  });
+
+  it('should reject a server that does not accept the token', async () => {
+    const baseUrl = await start();
+
+    await expect(
+      waitForServerReady({
+        ...options(baseUrl),
+        token: 'wrong',
+        timeoutMs: 300,
+      })
+    ).rejects.toThrow('GET /v8/artifacts/status returned HTTP 401');
+  });
+
+  it('should keep retrying until the server starts listening', async () => {
+    const baseUrl = await start();
+    await new Promise((resolve) => server!.close(resolve));
+    const port = new URL(baseUrl).port;
+
+    const ready = waitForServerReady(options(baseUrl));
+    setTimeout(() => {
+      server!.listen(Number(port), '127.0.0.1');
+    }, 250);
+
+    await expect(ready).resolves.toBe(undefined);
+  });
+
+  it('should fail fast with stderr when the server exits during startup', async () => {
+    const stderrFile = path.join(tempDir, 'error.log');
+    writeFileSync(stderrFile, 'Error: listen EADDRINUSE\n');
+    const child = new EventEmitter() as ChildProcess;
+    const startedAt = Date.now();
+
+    const ready = waitForServerReady({
+      ...options('http://127.0.0.1:1'),
+      timeoutMs: 10000,
+      serverProcess: child,
+      stderrFile,
+    });
+    setTimeout(() => child.emit('exit', 1, null), 50);
+
+    await expect(ready).rejects.toThrow(
+      'Cache server exited with code 1 during startup:\nError: listen EADDRINUSE'
+    );
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+});
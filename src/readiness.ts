@@ -0,0 +1,216 @@
+import { ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import { PROBE_HEADER } from './server/app';
+import { randomBytes } from 'crypto';
+import { signArtifact } from './server/signature';
+
+export const DEFAULT_STARTUP_TIMEOUT_SECONDS = 30;
+
+const INITIAL_RETRY_DELAY_MS = 100;
+const MAX_RETRY_DELAY_MS = 2000;
+const MAX_PROBE_TIMEOUT_MS = 5000;
+const MAX_STDERR_BYTES = 2048;
+
+// Rewritten on every start so canaries never accumulate in the bucket
+const CANARY_HASH = 'cache-rocket-readiness-canary';
+
+export interface ReadinessOptions {
+  baseUrl: string;
+  token: string;
+  teamId: string;
+  timeoutMs: number;
+  /** Round-trip an artifact through storage, not just the status endpoint */
+  canary?: boolean;
+  /** Signs the canary when the server only accepts signed artifacts */
+  signatureKey?: string;
+  /** The server refuses writes, so the canary only looks an artifact up */
+  readOnly?: boolean;
+  /** Fail as soon as this process exits instead of waiting for the timeout */
+  serverProcess?: ChildProcess;
+  /** Quoted in the error when the server exits during startup */
+  stderrFile?: string;
+  /** The version the server must report, so a stale bundle fails startup */
+  version?: string;
+}
+
+// Retrying cannot fix a server that runs the wrong code
+class ServerVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServerVersionError';
+  }
+}
+
+interface ExitStatus {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readStderrTail(file: string | undefined): Promise<string> {
+  if (!file) {
+    return '';
+  }
+  try {
+    const content = (await fs.readFile(file, 'utf8')).trim();
+    return content.length > MAX_STDERR_BYTES
+      ? `…${content.slice(-MAX_STDERR_BYTES)}`
+      : content;
+  } catch {
+    return '';
+  }
+}
+
+// fetch rejects with a generic "fetch failed"; the cause says why
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  return error.cause instanceof Error ? error.cause.message : error.message;
+}
+
+async function request(
+  options: ReadinessOptions,
+  urlPath: string,
+  timeoutMs: number,
+  init: RequestInit = {},
+  acceptedStatuses: number[] = []
+): Promise<Response> {
+  const response = await fetch(`${options.baseUrl}${urlPath}`, {
+    ...init,
+    headers: {
+      authorization: `Bearer ${options.token}`,
+      [PROBE_HEADER]: '1',
+      ...init.headers,
+    },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok && !acceptedStatuses.includes(response.status)) {
+    throw new Error(
+      `${init.method ?? 'GET'} ${urlPath} returned HTTP ${response.status}`
+    );
+  }
+  return response;
+}
+
+async function probe(
+  options: ReadinessOptions,
+  timeoutMs: number
+): Promise<void> {
+  const status = await request(options, '/v8/artifacts/status', timeoutMs);
+  const body = (await status.json()) as { status?: unknown; version?: unknown };
+  if (body.status !== 'enabled') {
+    throw new Error(`cache status is ${JSON.stringify(body.status)}`);
+  }
+  if (options.version && body.version !== options.version) {
+    throw new ServerVersionError(
+      `The bundled cache server reports version ${JSON.stringify(body.version)} but ${options.version} was expected; the action was not built correctly`
+    );
+  }
+
+  if (!options.canary) {
+    return;
+  }
+
+  const artifactPath = `/v8/artifacts/${CANARY_HASH}?teamId=${encodeURIComponent(options.teamId)}`;
+  if (options.readOnly) {
+    // A miss still proves storage answers lookups
+    await request(options, artifactPath, timeoutMs, { method: 'HEAD' }, [404]);
+    return;
+  }
+  const expected = randomBytes(32);
+  await request(options, artifactPath, timeoutMs, {
+    method: 'PUT',
+    body: expected,
+    headers: {
+      'content-type': 'application/octet-stream',
+      ...(options.signatureKey && {
+        'x-artifact-tag': signArtifact(
+          options.signatureKey,
+          CANARY_HASH,
+          options.teamId,
+          expected
+        ),
+      }),
+    },
+  });
+  const actual = Buffer.from(
+    await (await request(options, artifactPath, timeoutMs)).arrayBuffer()
+  );
+  if (!actual.equals(expected)) {
+    throw new Error('canary artifact did not round-trip through storage');
+  }
+}
+
+/**
+ * Polls the cache server with authenticated requests until it reports the
+ * cache as enabled (and, with `canary`, can store and serve an artifact),
+ * backing off between attempts until `timeoutMs` elapses.
+ */
+export async function waitForServerReady(
+  options: ReadinessOptions
+): Promise<void> {
+  const { serverProcess, timeoutMs } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  let exitStatus: ExitStatus | undefined;
+  let onExit: (
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ) => void = () => undefined;
+  const exited = new Promise<void>((resolve) => {
+    onExit = (code, signal) => {
+      exitStatus = { code, signal };
+      resolve();
+    };
+  });
+  serverProcess?.once('exit', onExit);
+
+  try {
+    let lastError = 'no response';
+    for (let delay = INITIAL_RETRY_DELAY_MS; ; delay *= 2) {
+      if (exitStatus) {
+        const reason =
+          exitStatus.code === null
+            ? `signal ${exitStatus.signal}`
+            : `code ${exitStatus.code}`;
+        const stderr = await readStderrTail(options.stderrFile);
+        throw new Error(
+          `Cache server exited with ${reason} during startup${stderr ? `:\n${stderr}` : ''}`
+        );
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(
+          `Cache server was not ready within ${timeoutMs / 1000} seconds: ${lastError}`
+        );
+      }
+
+      try {
+        await probe(options, Math.min(remaining, MAX_PROBE_TIMEOUT_MS));
+        return;
+      } catch (error) {
+        if (error instanceof ServerVersionError) {
+          throw error;
+        }
+        lastError = describeError(error);
+      }
+
+      await Promise.race([
+        sleep(
+          Math.max(
+            0,
+            Math.min(delay, MAX_RETRY_DELAY_MS, deadline - Date.now())
+          )
+        ),
+        exited,
+      ]);
+    }
+  } finally {
+    serverProcess?.off('exit', onExit);
+  }
+}
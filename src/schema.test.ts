@@ -157,4 +157,22 @@ describe('Zod Schema Validation', () => {
     expect(typeof provider).toBe('string');
     expect(typeof path).toBe('string');
   });
+
+  it.each(['abc', '30OO', '-1', '0', '65536', '3000.5', ''])(
+    'should reject non-numeric or out-of-range PORT %j',
+    (port) => {
+      expect(() =>
+        ServerEnvSchema.parse({ PORT: port, TURBO_TOKEN: 'token' })
+      ).toThrow();
+    }
+  );
+
+  it('should accept PORT at the edges of the valid range', () => {
+    expect(() =>
+      ServerEnvSchema.parse({ PORT: '1', TURBO_TOKEN: 'token' })
+    ).not.toThrow();
+    expect(() =>
+      ServerEnvSchema.parse({ PORT: '65535', TURBO_TOKEN: 'token' })
+    ).not.toThrow();
+  });
 });
@@ -0,0 +1,109 @@
+export const LOG_DIR = 'logs';
+export const SERVER_LOG_FILE = `${LOG_DIR}/turborepo-remote-cache.log`;
+export const SERVER_ERROR_LOG_FILE = `${LOG_DIR}/turborepo-remote-cache-error.log`;
+
+// Only the tail of each log file is shown so a chatty run can't flood the job log
+export const MAX_LOG_DISPLAY_BYTES = 64 * 1024;
+export const MAX_LOG_ANNOTATIONS = 10;
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+export interface FormattedLogLine {
+  level?: LogLevel;
+  message: string;
+  text: string;
+}
+
+const PINO_LEVELS: Record<number, LogLevel> = {
+  10: 'trace',
+  20: 'debug',
+  30: 'info',
+  40: 'warn',
+  50: 'error',
+  60: 'fatal',
+};
+
+interface PinoLine {
+  level: number;
+  time?: number;
+  msg?: string;
+  err?: { message?: string; stack?: string };
+  req?: { method?: string; url?: string };
+  res?: { statusCode?: number };
+  responseTime?: number;
+}
+
+function isPinoLine(value: unknown): value is PinoLine {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { level?: unknown }).level === 'number'
+  );
+}
+
+function parsePinoLine(line: string): PinoLine | undefined {
+  if (!line.startsWith('{')) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return isPinoLine(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function describeRequest(entry: PinoLine): string {
+  const parts: string[] = [];
+  if (entry.req?.method && entry.req.url) {
+    parts.push(`${entry.req.method} ${entry.req.url}`);
+  }
+  if (entry.res?.statusCode !== undefined) {
+    parts.push(String(entry.res.statusCode));
+  }
+  if (entry.responseTime !== undefined) {
+    parts.push(`${entry.responseTime.toFixed(1)}ms`);
+  }
+  return parts.length > 0 ? ` (${parts.join(' ')})` : '';
+}
+
+export function formatLogLine(line: string): FormattedLogLine {
+  const entry = parsePinoLine(line);
+  if (!entry) {
+    return { message: line, text: line };
+  }
+
+  const level = PINO_LEVELS[entry.level] ?? 'info';
+  const message =
+    (entry.msg ?? entry.err?.message ?? '') + describeRequest(entry);
+  const time =
+    entry.time !== undefined
+      ? `[${new Date(entry.time).toISOString().slice(11, 23)}] `
+      : '';
+  const stack = entry.err?.stack ? `\n${entry.err.stack}` : '';
+
+  return {
+    level,
+    message,
+    text: `${time}${level.toUpperCase()}: ${message}${stack}`,
+  };
+}
+
+export function truncateLog(content: string): {
+  content: string;
+  truncatedBytes: number;
+} {
+  const size = Buffer.byteLength(content);
+  if (size <= MAX_LOG_DISPLAY_BYTES) {
+    return { content, truncatedBytes: 0 };
+  }
+
+  const tail = Buffer.from(content)
+    .subarray(size - MAX_LOG_DISPLAY_BYTES)
+    .toString('utf8');
+  // Drop the partial first line so a JSON entry is never cut in half
+  const firstNewline = tail.indexOf('\n');
+  const kept = firstNewline === -1 ? tail : tail.slice(firstNewline + 1);
+
+  return { content: kept, truncatedBytes: size - Buffer.byteLength(kept) };
+}
@@ -0,0 +1,450 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { createHmac } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CacheServerOptions, createCacheServer } from './app';
+import { CacheStatsRecorder } from '../cache-stats';
+import { createLogger } from './logger';
+import { deriveEncryptionKey } from './encryption';
+import { EncryptedStorage } from './storage/encrypted';
+import { MemoryStorage } from './storage/memory';
+import { SERVER_VERSION } from './version';
+import { StorageProvider } from './storage';
+
+const TOKEN = 'test-token';
+
+describe('server/app.ts - Remote Cache API', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let storage: StorageProvider;
+  let recorder: CacheStatsRecorder;
+  let statsDir: string;
+  let logLines: string[];
+
+  async function start(
+    provider: StorageProvider = new MemoryStorage(),
+    options: Pick<
+      CacheServerOptions,
+      'signatureKey' | 'readOnly' | 'readOnlyToken'
+    > = {}
+  ) {
+    storage = provider;
+    server = createCacheServer({
+      token: TOKEN,
+      storage,
+      recorder,
+      logger: createLogger('info', (line) => logLines.push(line)),
+      ...options,
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', () => resolve())
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function request(urlPath: string, init: RequestInit = {}) {
+    return fetch(`${baseUrl}${urlPath}`, {
+      ...init,
+      headers: { authorization: `Bearer ${TOKEN}`, ...init.headers },
+    });
+  }
+
+  beforeEach(async () => {
+    logLines = [];
+    statsDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    recorder = new CacheStatsRecorder(path.join(statsDir, 'stats.json'));
+    await start();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(statsDir, { recursive: true, force: true });
+  });
+
+  it('should report the cache as enabled', async () => {
+    const response = await request('/v8/artifacts/status');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      status: 'enabled',
+      version: SERVER_VERSION,
+    });
+  });
+
+  it('should accept artifact events', async () => {
+    const response = await request('/v8/artifacts/events?teamId=ci', {
+      method: 'POST',
+      body: JSON.stringify([{ event: 'HIT', hash: 'abc' }]),
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should store and serve artifacts with their metadata', async () => {
+    const put = await request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+      headers: { 'x-artifact-duration': '420', 'x-artifact-tag': 'tag==' },
+    });
+    expect(put.status).toBe(200);
+    expect(await put.json()).toEqual({ urls: ['ci/abc123'] });
+
+    const get = await request('/v8/artifacts/abc123?teamId=ci');
+    expect(get.status).toBe(200);
+    expect(get.headers.get('content-type')).toBe('application/octet-stream');
+    expect(get.headers.get('x-artifact-duration')).toBe('420');
+    expect(get.headers.get('x-artifact-tag')).toBe('tag==');
+    expect(await get.text()).toBe('artifact-body');
+  });
+
+  it('should answer HEAD requests based on existence', async () => {
+    await request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+    });
+
+    const hit = await request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'HEAD',
+    });
+    const miss = await request('/v8/artifacts/def456?teamId=ci', {
+      method: 'HEAD',
+    });
+
+    expect(hit.status).toBe(200);
+    expect(miss.status).toBe(404);
+  });
+
+  it('should return 404 for unknown artifacts', async () => {
+    const response = await request('/v8/artifacts/missing?teamId=ci');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: { code: 'not_found', message: 'Artifact not found' },
+    });
+  });
+
+  it('should isolate artifacts per team, accepting slug as well', async () => {
+    await request('/v8/artifacts/abc123?teamId=team-a', {
+      method: 'PUT',
+      body: 'team-a-body',
+    });
+
+    const sameTeam = await request('/v8/artifacts/abc123?slug=team-a');
+    const otherTeam = await request('/v8/artifacts/abc123?teamId=team-b');
+
+    expect(await sameTeam.text()).toBe('team-a-body');
+    expect(otherTeam.status).toBe(404);
+  });
+
+  it('should require a team', async () => {
+    const response = await request('/v8/artifacts/abc123');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject team names that could escape the namespace', async () => {
+    const response = await request('/v8/artifacts/abc123?teamId=../etc');
+
+    expect(response.status).toBe(400);
+  });
+
+  it.each(['.', '..'])(
+    'should reject the team "%s", which would leave the storage path',
+    async (team) => {
+      const put = await request(`/v8/artifacts/secret?teamId=${team}`, {
+        method: 'PUT',
+        body: 'escaped',
+      });
+      const get = await request(`/v8/artifacts/secret?teamId=${team}`);
+
+      expect(put.status).toBe(400);
+      expect(get.status).toBe(400);
+    }
+  );
+
+  it.each([
+    ['no authorization header', {}],
+    ['a wrong token', { authorization: 'Bearer wrong-token' }],
+    ['a non-bearer scheme', { authorization: `Basic ${TOKEN}` }],
+  ])('should reject requests with %s', async (_name, headers) => {
+    const response = await fetch(`${baseUrl}/v8/artifacts/status`, {
+      headers,
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject unsupported methods', async () => {
+    const response = await request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'DELETE',
+    });
+
+    expect(response.status).toBe(405);
+  });
+
+  it('should record hits, misses and uploads', async () => {
+    await request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'PUT',
+      body: '12345',
+    });
+    await request('/v8/artifacts/abc123?teamId=ci');
+    await request('/v8/artifacts/missing?teamId=ci');
+
+    const stats = recorder.snapshot();
+    expect(stats).toMatchObject({
+      hits: 1,
+      misses: 1,
+      uploads: 1,
+      bytesDownloaded: 5,
+      bytesUploaded: 5,
+    });
+    expect(stats.latenciesMs).toHaveLength(3);
+  });
+
+  it('should serve artifacts that fail decryption as misses', async () => {
+    const inner = new MemoryStorage();
+    await start(
+      new EncryptedStorage(
+        inner,
+        [deriveEncryptionKey('current-secret-value')],
+        {
+          onDecryptionError: (key, error) =>
+            recorder.recordDecryptionFailure(key, error.message),
+        }
+      )
+    );
+    await request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+    });
+    const stored = await inner.read('ci/abc123');
+    // Flip a bit of the final frame's tag
+    const ciphertext = Buffer.concat(await stored!.body.toArray());
+    ciphertext.writeUInt8(
+      ciphertext.readUInt8(ciphertext.length - 1) ^ 1,
+      ciphertext.length - 1
+    );
+    await inner.write(
+      'ci/abc123',
+      Readable.from([ciphertext]),
+      stored!.metadata
+    );
+
+    const response = await request('/v8/artifacts/abc123?teamId=ci');
+
+    expect(response.status).toBe(404);
+    expect(recorder.snapshot()).toMatchObject({
+      hits: 0,
+      misses: 1,
+      decryptionFailures: [expect.objectContaining({ key: 'ci/abc123' })],
+    });
+  });
+
+  it('should log each request as a pino-compatible line', async () => {
+    await request('/v8/artifacts/status');
+
+    const entry = JSON.parse(logLines.at(-1)!);
+    expect(entry).toMatchObject({
+      level: 30,
+      msg: 'request completed',
+      req: { method: 'GET', url: '/v8/artifacts/status' },
+      res: { statusCode: 200 },
+    });
+  });
+
+  it('should answer 500 and log when storage fails', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const failing = new MemoryStorage();
+    failing.read = () => Promise.reject(new Error('bucket unreachable'));
+    await start(failing);
+
+    const response = await request('/v8/artifacts/abc123?teamId=ci');
+
+    expect(response.status).toBe(500);
+    expect(logLines.some((line) => line.includes('bucket unreachable'))).toBe(
+      true
+    );
+  });
+
+  it('should track uploads while they are written to storage', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const slow = new MemoryStorage();
+    const write = slow.write.bind(slow);
+    let release: () => void = () => undefined;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    slow.write = async (...args) => {
+      await released;
+      return write(...args);
+    };
+    await start(slow);
+
+    const put = request('/v8/artifacts/abc123?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(recorder.uploadsInFlight).toBe(1);
+
+    release();
+    expect((await put).status).toBe(200);
+    expect(recorder.uploadsInFlight).toBe(0);
+  });
+
+  it('should refuse writes but keep serving artifacts when read-only', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const seeded = new MemoryStorage();
+    await seeded.write('ci/abc123', Readable.from(['cached']), {});
+    await start(seeded, { readOnly: true });
+
+    const put = await request('/v8/artifacts/def456?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+    });
+    const get = await request('/v8/artifacts/abc123?teamId=ci');
+
+    expect(put.status).toBe(403);
+    expect(await put.json()).toEqual({
+      error: {
+        code: 'forbidden',
+        message: 'The cache is read-only for this job',
+      },
+    });
+    expect(await seeded.exists('ci/def456')).toBe(false);
+    expect(await get.text()).toBe('cached');
+    expect(recorder.snapshot()).toMatchObject({
+      hits: 1,
+      uploads: 0,
+      refusedWrites: 1,
+    });
+  });
+
+  it('should let the read-only token read but not write', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const seeded = new MemoryStorage();
+    await seeded.write('ci/abc123', Readable.from(['cached']), {});
+    await start(seeded, { readOnlyToken: 'read-only-token' });
+    const headers = { authorization: 'Bearer read-only-token' };
+
+    const get = await request('/v8/artifacts/abc123?teamId=ci', { headers });
+    const put = await request('/v8/artifacts/def456?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+      headers,
+    });
+    const write = await request('/v8/artifacts/def456?teamId=ci', {
+      method: 'PUT',
+      body: 'artifact-body',
+    });
+
+    expect(await get.text()).toBe('cached');
+    expect(put.status).toBe(403);
+    expect(await put.json()).toEqual({
+      error: {
+        code: 'forbidden',
+        message: 'This token may only read from the cache',
+      },
+    });
+    expect(write.status).toBe(200);
+    expect(recorder.snapshot()).toMatchObject({ uploads: 1, refusedWrites: 1 });
+  });
+
+  describe('artifact signatures', () => {
+    const SIGNATURE_KEY = 'signing-key';
+
+    // Turbo's x-artifact-tag: HMAC-SHA256 over hash, team and body
+    function tag(body: string, hash = 'abc123', team = 'ci') {
+      return createHmac('sha256', SIGNATURE_KEY)
+        .update(hash + team + body)
+        .digest('base64');
+    }
+
+    beforeEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      await start(new MemoryStorage(), { signatureKey: SIGNATURE_KEY });
+    });
+
+    it('should store artifacts signed with the key', async () => {
+      const put = await request('/v8/artifacts/abc123?teamId=ci', {
+        method: 'PUT',
+        body: 'artifact-body',
+        headers: { 'x-artifact-tag': tag('artifact-body') },
+      });
+
+      expect(put.status).toBe(200);
+      expect(await storage.exists('ci/abc123')).toBe(true);
+      expect(recorder.snapshot().rejectedUploads).toBe(0);
+    });
+
+    it('should reject tampered artifacts without storing them', async () => {
+      const put = await request('/v8/artifacts/abc123?teamId=ci', {
+        method: 'PUT',
+        body: 'tampered-body',
+        headers: { 'x-artifact-tag': tag('artifact-body') },
+      });
+
+      expect(put.status).toBe(400);
+      expect(await put.json()).toEqual({
+        error: {
+          code: 'bad_request',
+          message: 'Artifact signature does not match',
+        },
+      });
+      expect(await storage.exists('ci/abc123')).toBe(false);
+      expect(recorder.snapshot()).toMatchObject({
+        uploads: 0,
+        rejectedUploads: 1,
+      });
+    });
+
+    it('should reject signatures made for another team', async () => {
+      const put = await request('/v8/artifacts/abc123?teamId=ci', {
+        method: 'PUT',
+        body: 'artifact-body',
+        headers: {
+          'x-artifact-tag': tag('artifact-body', 'abc123', 'other'),
+        },
+      });
+
+      expect(put.status).toBe(400);
+      expect(await storage.exists('ci/abc123')).toBe(false);
+    });
+
+    it('should accept tags turbo signs with only a team slug set', async () => {
+      // turbo signs hash ‖ team_id ‖ body; its team id is empty unless
+      // TURBO_TEAMID is set, and TURBO_TEAM only becomes the slug parameter
+      const teamId = '';
+      const turboTag = createHmac('sha256', SIGNATURE_KEY)
+        .update(`abc123${teamId}`)
+        .update('artifact-body')
+        .digest('base64');
+
+      const put = await request('/v8/artifacts/abc123?slug=ci', {
+        method: 'PUT',
+        body: 'artifact-body',
+        headers: { 'x-artifact-tag': turboTag },
+      });
+
+      expect(put.status).toBe(200);
+      expect(await storage.exists('ci/abc123')).toBe(true);
+    });
+
+    it('should reject unsigned artifacts', async () => {
+      const put = await request('/v8/artifacts/abc123?teamId=ci', {
+        method: 'PUT',
+        body: 'artifact-body',
+      });
+
+      expect(put.status).toBe(400);
+      expect(recorder.snapshot().rejectedUploads).toBe(1);
+      expect(
+        logLines.some((line) => line.includes('Rejected unsigned artifact'))
+      ).toBe(true);
+    });
+  });
+});
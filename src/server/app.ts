@@ -0,0 +1,334 @@
+import { ArtifactMetadata, StorageProvider } from './storage';
+import { finished, pipeline } from 'stream/promises';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Logger, serializeError } from './logger';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { CacheStatsRecorder } from '../cache-stats';
+import { SERVER_VERSION } from './version';
+import { SignatureVerifier } from './signature';
+import { timingSafeEqual } from 'crypto';
+import { TokenScope } from '../tokens';
+
+export interface CacheServerOptions {
+  token: string;
+  /** Authenticates requests like `token`, but its uploads are refused */
+  readOnlyToken?: string;
+  storage: StorageProvider;
+  recorder: CacheStatsRecorder;
+  logger: Logger;
+  /** When set, uploads must carry a matching x-artifact-tag signature */
+  signatureKey?: string;
+  /** Refuse uploads with 403, which turbo reports and then carries on from */
+  readOnly?: boolean;
+}
+
+export class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Requests carrying this header (the start step's readiness canary) are
+// served normally but left out of the cache statistics
+export const PROBE_HEADER = 'x-cache-rocket-probe';
+
+const ARTIFACT_PATH = /^\/v8\/artifacts\/([A-Za-z0-9_-]+)$/;
+const TEAM_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+const ERROR_CODES: Record<number, string> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  405: 'method_not_allowed',
+  500: 'internal_error',
+};
+
+class ByteCounter extends Transform {
+  bytes = 0;
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  const payload = JSON.stringify(body);
+  res.writeHead(statusCode, {
+    'content-type': 'application/json',
+    'content-length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+function elapsedMs(startedAt: bigint): number {
+  return Number(process.hrtime.bigint() - startedAt) / 1e6;
+}
+
+function tokenMatches(provided: Buffer, token: string): boolean {
+  const expected = Buffer.from(token);
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
+
+function authenticate(
+  req: IncomingMessage,
+  { token, readOnlyToken }: CacheServerOptions
+): TokenScope {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) {
+    throw new HttpError(401, 'Missing bearer token');
+  }
+  const provided = Buffer.from(header.slice('Bearer '.length));
+  if (tokenMatches(provided, token)) {
+    return 'read-write';
+  }
+  if (readOnlyToken && tokenMatches(provided, readOnlyToken)) {
+    return 'read-only';
+  }
+  throw new HttpError(401, 'Invalid bearer token');
+}
+
+function resolveTeam(url: URL): string {
+  const team = url.searchParams.get('teamId') ?? url.searchParams.get('slug');
+  if (!team) {
+    throw new HttpError(400, 'teamId or slug query parameter is required');
+  }
+  // `.` and `..` would resolve outside the team's directory on disk
+  if (!TEAM_PATTERN.test(team) || team === '.' || team === '..') {
+    throw new HttpError(400, `Invalid team "${team}"`);
+  }
+  return team;
+}
+
+/**
+ * The team turbo signs artifacts for: its team id, sent as `teamId`. With
+ * only a slug configured, turbo signs with an empty team id.
+ */
+function signingTeam(url: URL): string {
+  return url.searchParams.get('teamId') ?? '';
+}
+
+function artifactMetadata(req: IncomingMessage): ArtifactMetadata {
+  const metadata: ArtifactMetadata = {};
+  const duration = req.headers['x-artifact-duration'];
+  const tag = req.headers['x-artifact-tag'];
+  if (typeof duration === 'string') {
+    metadata.duration = duration;
+  }
+  if (typeof tag === 'string') {
+    metadata.tag = tag;
+  }
+  return metadata;
+}
+
+async function drain(req: Readable): Promise<void> {
+  req.resume();
+  await finished(req);
+}
+
+function verifySignature(
+  req: IncomingMessage,
+  team: string,
+  hash: string,
+  signatureKey: string
+): SignatureVerifier {
+  const tag = req.headers['x-artifact-tag'];
+  if (typeof tag !== 'string' || !tag) {
+    throw new HttpError(400, 'Artifact signature is missing');
+  }
+  return new SignatureVerifier(signatureKey, hash, team, tag);
+}
+
+async function handleArtifact(
+  req: IncomingMessage,
+  res: ServerResponse,
+  team: string,
+  signedTeam: string,
+  hash: string,
+  scope: TokenScope,
+  { storage, recorder, logger, signatureKey, readOnly }: CacheServerOptions,
+  startedAt: bigint
+): Promise<void> {
+  const key = `${team}/${hash}`;
+  const probe = req.headers[PROBE_HEADER] !== undefined;
+
+  switch (req.method) {
+    case 'HEAD': {
+      res.writeHead((await storage.exists(key)) ? 200 : 404).end();
+      return;
+    }
+    case 'GET': {
+      const artifact = await storage.read(key);
+      if (!artifact) {
+        if (!probe) {
+          recorder.recordDownload(false, 0, elapsedMs(startedAt));
+        }
+        throw new HttpError(404, 'Artifact not found');
+      }
+      res.writeHead(200, {
+        'content-type': 'application/octet-stream',
+        ...(artifact.size !== undefined && {
+          'content-length': artifact.size,
+        }),
+        ...(artifact.metadata.duration && {
+          'x-artifact-duration': artifact.metadata.duration,
+        }),
+        ...(artifact.metadata.tag && {
+          'x-artifact-tag': artifact.metadata.tag,
+        }),
+      });
+      const counter = new ByteCounter();
+      await pipeline(artifact.body, counter, res);
+      if (!probe) {
+        recorder.recordDownload(
+          true,
+          counter.bytes,
+          elapsedMs(startedAt),
+          artifact.tier
+        );
+      }
+      return;
+    }
+    case 'PUT': {
+      if (readOnly || scope === 'read-only') {
+        await drain(req);
+        if (!probe) {
+          recorder.recordRefusedWrite();
+        }
+        throw new HttpError(
+          403,
+          readOnly
+            ? 'The cache is read-only for this job'
+            : 'This token may only read from the cache'
+        );
+      }
+
+      let verifier: SignatureVerifier | undefined;
+      try {
+        verifier = signatureKey
+          ? verifySignature(req, signedTeam, hash, signatureKey)
+          : undefined;
+      } catch (error) {
+        if (!probe) {
+          recorder.recordRejectedUpload();
+        }
+        logger.warn(`Rejected unsigned artifact ${key}`);
+        throw error;
+      }
+
+      const counter = new ByteCounter();
+      req.on('error', (error) => counter.destroy(error));
+      verifier?.on('error', (error) => counter.destroy(error));
+      const body = verifier ? req.pipe(verifier) : req;
+      // Tracked so shutdown can wait for uploads still streaming to storage
+      recorder.startUpload();
+      try {
+        await storage.write(key, body.pipe(counter), artifactMetadata(req));
+        if (!probe) {
+          recorder.recordUpload(counter.bytes, elapsedMs(startedAt));
+        }
+        sendJson(res, 200, { urls: [key] });
+      } catch (error) {
+        if (!verifier?.rejected) {
+          throw error;
+        }
+        if (!probe) {
+          recorder.recordRejectedUpload();
+        }
+        logger.warn(`Rejected artifact ${key} with a mismatched signature`);
+        throw new HttpError(400, 'Artifact signature does not match');
+      } finally {
+        recorder.finishUpload();
+      }
+      return;
+    }
+    default:
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+  }
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: CacheServerOptions
+): Promise<void> {
+  const startedAt = process.hrtime.bigint();
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  if (!url.pathname.startsWith('/v8/')) {
+    throw new HttpError(404, 'Not found');
+  }
+  const scope = authenticate(req, options);
+
+  if (url.pathname === '/v8/artifacts/status' && req.method === 'GET') {
+    // The start step compares the version with its own to catch a stale bundle
+    sendJson(res, 200, { status: 'enabled', version: SERVER_VERSION });
+    return;
+  }
+  if (url.pathname === '/v8/artifacts/events' && req.method === 'POST') {
+    await drain(req);
+    sendJson(res, 200, {});
+    return;
+  }
+
+  const match = ARTIFACT_PATH.exec(url.pathname);
+  if (!match?.[1]) {
+    throw new HttpError(404, 'Not found');
+  }
+  await handleArtifact(
+    req,
+    res,
+    resolveTeam(url),
+    signingTeam(url),
+    match[1],
+    scope,
+    options,
+    startedAt
+  );
+}
+
+/**
+ * Creates an HTTP server implementing the subset of the Vercel Remote Cache
+ * API that turbo uses, backed by the given storage provider.
+ */
+export function createCacheServer(options: CacheServerOptions): http.Server {
+  const { logger } = options;
+
+  return http.createServer((req, res) => {
+    const startedAt = process.hrtime.bigint();
+    res.on('finish', () => {
+      logger.info('request completed', {
+        req: { method: req.method, url: req.url },
+        res: { statusCode: res.statusCode },
+        responseTime: elapsedMs(startedAt),
+      });
+    });
+
+    handleRequest(req, res, options).catch((error: unknown) => {
+      const statusCode = error instanceof HttpError ? error.statusCode : 500;
+      if (statusCode === 500) {
+        logger.error(`${req.method} ${req.url} failed`, serializeError(error));
+      }
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      const message =
+        error instanceof HttpError ? error.message : 'Internal server error';
+      sendJson(res, statusCode, {
+        error: { code: ERROR_CODES[statusCode] ?? 'error', message },
+      });
+    });
+  });
+}
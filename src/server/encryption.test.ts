@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import {
+  ArtifactCipher,
+  ArtifactDecipher,
+  decryptedSize,
+  DecryptionError,
+  deriveEncryptionKey,
+} from './encryption';
+
+const KEY = deriveEncryptionKey('correct horse battery staple');
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function encrypt(plaintext: Buffer, storageKey = 'ci/abc'): Promise<Buffer> {
+  return collect(
+    Readable.from([plaintext]).pipe(new ArtifactCipher(KEY, storageKey))
+  );
+}
+
+function decrypt(
+  ciphertext: Buffer,
+  key = KEY,
+  storageKey = 'ci/abc'
+): Promise<Buffer> {
+  const decipher = new ArtifactDecipher(key, storageKey);
+  return collect(Readable.from([ciphertext]).pipe(decipher));
+}
+
+describe('server/encryption.ts - Artifact Encryption', () => {
+  it('should derive a stable key id that does not reveal the key', () => {
+    const key = deriveEncryptionKey('correct horse battery staple');
+
+    expect(key.id).toBe(KEY.id);
+    expect(key.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(deriveEncryptionKey('another secret value').id).not.toBe(KEY.id);
+  });
+
+  it.each([0, 1, 64 * 1024, 64 * 1024 + 1, 200 * 1024])(
+    'should round-trip %i bytes and predict the plaintext size',
+    async (size) => {
+      const plaintext = randomBytes(size);
+
+      const ciphertext = await encrypt(plaintext);
+
+      expect(decryptedSize(ciphertext.length)).toBe(size);
+      expect((await decrypt(ciphertext)).equals(plaintext)).toBe(true);
+    }
+  );
+
+  it('should use a fresh salt for every artifact', async () => {
+    const plaintext = Buffer.from('same bundle');
+
+    expect((await encrypt(plaintext)).equals(await encrypt(plaintext))).toBe(
+      false
+    );
+  });
+
+  it('should reject tampered, truncated and wrongly keyed artifacts', async () => {
+    const ciphertext = await encrypt(randomBytes(100 * 1024));
+    const tampered = Buffer.from(ciphertext);
+    tampered[100] = (tampered[100] ?? 0) ^ 1;
+
+    await expect(decrypt(tampered)).rejects.toThrow(DecryptionError);
+    await expect(
+      decrypt(ciphertext.subarray(0, 16 + 64 * 1024 + 16))
+    ).rejects.toThrow('the artifact failed authentication');
+    await expect(decrypt(ciphertext.subarray(0, 8))).rejects.toThrow(
+      'the artifact is truncated'
+    );
+    await expect(
+      decrypt(ciphertext, deriveEncryptionKey('another secret value'))
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  it('should reject artifacts moved to another storage key', async () => {
+    const ciphertext = await encrypt(randomBytes(1024), 'ci/abc');
+
+    await expect(decrypt(ciphertext, KEY, 'ci/def')).rejects.toThrow(
+      DecryptionError
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { z } from 'zod';
+
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+// Plaintext per frame; each frame is authenticated on its own so a reader
+// never passes on data that has not been verified
+const FRAME_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+const SALT_SIZE = 16;
+const NONCE_SIZE = 12;
+
+// One key per line; the first encrypts, the rest only decrypt while
+// artifacts written with them age out
+export const EncryptionKeyListSchema = z
+  .string()
+  .transform((value) =>
+    value
+      .split('\n')
+      .map((key) => key.trim())
+      .filter(Boolean)
+  )
+  .pipe(
+    z
+      .array(
+        z.string().min(16, { message: 'keys must be at least 16 characters' })
+      )
+      .min(1, { message: 'must contain at least one key' })
+  );
+
+export interface EncryptionKey {
+  /** Identifies the key in artifact metadata without revealing it */
+  id: string;
+  secret: Buffer;
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/** Derives the artifact encryption key and its identifier from a secret. */
+export function deriveEncryptionKey(secret: string): EncryptionKey {
+  return {
+    id: createHmac('sha256', secret)
+      .update('cache-rocket-encryption-key-id')
+      .digest('hex')
+      .slice(0, 16),
+    secret: Buffer.from(
+      hkdfSync('sha256', secret, '', 'cache-rocket-encryption', 32)
+    ),
+  };
+}
+
+// Every artifact gets its own key from a random salt, so frame counters
+// can serve as nonces without ever repeating under one key
+function artifactKey(key: EncryptionKey, salt: Buffer): Buffer {
+  return Buffer.from(hkdfSync('sha256', key.secret, salt, 'artifact', 32));
+}
+
+// The last byte marks the final frame so a truncated artifact fails to decrypt
+function frameNonce(index: number, final: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_SIZE);
+  nonce.writeUInt32BE(index, NONCE_SIZE - 5);
+  nonce[NONCE_SIZE - 1] = final ? 1 : 0;
+  return nonce;
+}
+
+/** Size of the plaintext of an encrypted artifact of `size` bytes. */
+export function decryptedSize(size: number): number {
+  const frames = Math.max(
+    1,
+    Math.ceil((size - SALT_SIZE) / (FRAME_SIZE + TAG_SIZE))
+  );
+  return size - SALT_SIZE - frames * TAG_SIZE;
+}
+
+/**
+ * Encrypts an artifact as a salt followed by AES-256-GCM frames of
+ * FRAME_SIZE plaintext bytes, each followed by its tag. Every frame
+ * authenticates `storageKey` too, so an object copied to another key in
+ * the bucket fails to decrypt there.
+ */
+export class ArtifactCipher extends Transform {
+  private readonly salt = randomBytes(SALT_SIZE);
+  private readonly key: Buffer;
+  private readonly aad: Buffer;
+  private buffered = Buffer.alloc(0);
+  private index = 0;
+
+  constructor(key: EncryptionKey, storageKey: string) {
+    super();
+    this.aad = Buffer.from(storageKey);
+    this.key = artifactKey(key, this.salt);
+    this.push(this.salt);
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    this.buffered = Buffer.concat([this.buffered, chunk]);
+    // Holds back a full frame until more data shows it is not the last
+    while (this.buffered.length > FRAME_SIZE) {
+      this.pushFrame(this.buffered.subarray(0, FRAME_SIZE), false);
+      this.buffered = this.buffered.subarray(FRAME_SIZE);
+    }
+    callback();
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.pushFrame(this.buffered, true);
+    callback();
+  }
+
+  private pushFrame(plaintext: Buffer, final: boolean): void {
+    const cipher = createCipheriv(
+      ENCRYPTION_ALGORITHM,
+      this.key,
+      frameNonce(this.index++, final)
+    );
+    cipher.setAAD(this.aad);
+    this.push(Buffer.concat([cipher.update(plaintext), cipher.final()]));
+    this.push(cipher.getAuthTag());
+  }
+}
+
+/** Reverses ArtifactCipher, failing with a DecryptionError on tampering. */
+export class ArtifactDecipher extends Transform {
+  private key: Buffer | undefined;
+  private readonly aad: Buffer;
+  private buffered = Buffer.alloc(0);
+  private index = 0;
+
+  constructor(
+    private readonly encryptionKey: EncryptionKey,
+    storageKey: string
+  ) {
+    super();
+    this.aad = Buffer.from(storageKey);
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    this.buffered = Buffer.concat([this.buffered, chunk]);
+    try {
+      if (!this.key) {
+        if (this.buffered.length < SALT_SIZE) {
+          callback();
+          return;
+        }
+        this.key = artifactKey(
+          this.encryptionKey,
+          this.buffered.subarray(0, SALT_SIZE)
+        );
+        this.buffered = this.buffered.subarray(SALT_SIZE);
+      }
+      while (this.buffered.length > FRAME_SIZE + TAG_SIZE) {
+        this.pushFrame(this.buffered.subarray(0, FRAME_SIZE + TAG_SIZE), false);
+        this.buffered = this.buffered.subarray(FRAME_SIZE + TAG_SIZE);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    if (!this.key || this.buffered.length < TAG_SIZE) {
+      callback(new DecryptionError('the artifact is truncated'));
+      return;
+    }
+    try {
+      this.pushFrame(this.buffered, true);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private pushFrame(frame: Buffer, final: boolean): void {
+    const decipher = createDecipheriv(
+      ENCRYPTION_ALGORITHM,
+      this.key as Buffer,
+      frameNonce(this.index++, final)
+    );
+    decipher.setAAD(this.aad);
+    decipher.setAuthTag(frame.subarray(frame.length - TAG_SIZE));
+    const plaintext = decipher.update(frame.subarray(0, -TAG_SIZE));
+    try {
+      decipher.final();
+    } catch {
+      throw new DecryptionError(
+        'the artifact failed authentication and may have been tampered with'
+      );
+    }
+    this.push(plaintext);
+  }
+}
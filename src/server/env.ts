@@ -0,0 +1,65 @@
+import { PortSchema } from '../ports';
+import { z } from 'zod';
+
+export const STORAGE_PROVIDERS = [
+  'memory',
+  'local',
+  's3',
+  'google-cloud-storage',
+  'azure-blob-storage',
+] as const;
+
+export type StorageProviderName = (typeof STORAGE_PROVIDERS)[number];
+
+// Slash-separated path segments, e.g. turbo/cache
+export const StoragePrefixSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_.-]+(\/[A-Za-z0-9_.-]+)*$/, {
+    message: 'must be slash-separated letters, digits, ".", "_" and "-"',
+  })
+  .refine((prefix) => !/(^|\/)\.{1,2}(\/|$)/.test(prefix), {
+    message: 'must not contain "." or ".." segments',
+  });
+
+export const ServerEnvSchema = z.object({
+  PORT: PortSchema,
+  BIND_ADDRESS: z.union([z.ipv4(), z.ipv6()]).optional(),
+  TURBO_TOKEN: z.string(),
+  // Accepted for reads only; uploads made with it are refused
+  TURBO_READ_ONLY_TOKEN: z.string().min(1).optional(),
+  STORAGE_PROVIDER: z.enum(STORAGE_PROVIDERS).optional(),
+  STORAGE_PATH: z.string().optional(),
+  MAX_CACHE_SIZE: z.string().regex(/^\d+$/).optional(),
+  // Placed in front of every key the provider stores
+  STORAGE_PREFIX: StoragePrefixSchema.optional(),
+  // S3-compatible services such as MinIO, R2 or Ceph
+  S3_ENDPOINT: z.url({ protocol: /^https?$/ }).optional(),
+  S3_REGION: z.string().min(1).optional(),
+  S3_FORCE_PATH_STYLE: z.literal('true').optional(),
+  // A local disk tier in front of a remote provider
+  LOCAL_TIER_PATH: z.string().min(1).optional(),
+  LOCAL_TIER_SIZE: z.string().regex(/^\d+$/).optional(),
+  // Stages uploads here and uploads them to the provider in the background
+  ASYNC_UPLOADS_DIR: z.string().min(1).optional(),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  CACHE_STATS_FILE: z.string().optional(),
+  SIGNATURE_KEY: z.string().min(1).optional(),
+  // Newline-separated secrets; the first encrypts, all of them decrypt
+  ENCRYPTION_KEYS: z.string().min(1).optional(),
+  // Branch-scoped caches write to CACHE_NAMESPACE and fall back to the
+  // comma-separated CACHE_FALLBACK_NAMESPACES on reads
+  CACHE_NAMESPACE: z
+    .string()
+    .regex(/^[A-Za-z0-9_][A-Za-z0-9_.-]*$/)
+    .optional(),
+  CACHE_FALLBACK_NAMESPACES: z
+    .string()
+    .regex(/^([A-Za-z0-9_][A-Za-z0-9_.-]*)?(,[A-Za-z0-9_][A-Za-z0-9_.-]*)*$/)
+    .optional(),
+  // Refuses uploads while still serving artifacts
+  READ_ONLY: z.literal('true').optional(),
+  // Set by the supervisor when restarting a crashed server mid-job
+  RESUME_CACHE_STATS: z.literal('true').optional(),
+});
+
+export type ServerEnv = z.infer<typeof ServerEnvSchema>;
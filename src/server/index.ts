@@ -0,0 +1,110 @@
+import { CacheStatsRecorder, readCacheStatsSync } from '../cache-stats';
+import { createLogger, serializeError } from './logger';
+import { ServerEnv, ServerEnvSchema } from './env';
+import { createCacheServer } from './app';
+import { createStorage } from './storage';
+import http from 'http';
+import { SERVER_VERSION } from './version';
+
+export function runCacheServer(env: ServerEnv): http.Server {
+  const logger = createLogger(env.LOG_LEVEL);
+  const resumed = env.RESUME_CACHE_STATS
+    ? readCacheStatsSync(env.CACHE_STATS_FILE)
+    : undefined;
+  const recorder = new CacheStatsRecorder(
+    env.CACHE_STATS_FILE,
+    // Queued uploads are counted again as they are requeued from staging
+    resumed && { ...resumed, uploadsQueued: 0 }
+  );
+  const storage = createStorage(env, process.env, {
+    onEvict: ({ artifacts, bytes }) => {
+      recorder.recordEviction(artifacts, bytes);
+      logger.info(`Evicted ${artifacts} artifacts (${bytes} bytes)`);
+    },
+    onUploadQueued: () => recorder.queueUpload(),
+    onUploadSettled: (key, error) => {
+      recorder.settleQueuedUpload(key, error !== undefined);
+      if (error !== undefined) {
+        logger.error(`Could not upload ${key}`, serializeError(error));
+      }
+    },
+    onDecryptionError: (key, error) => {
+      recorder.recordDecryptionFailure(key, error.message);
+      logger.error(`Could not decrypt ${key}: ${error.message}`);
+    },
+    onRecordReadError: (key, error) => {
+      logger.debug(`Could not record a read of ${key}`, serializeError(error));
+    },
+    onLocalTierError: (key, error) => {
+      logger.warn(
+        `Could not keep ${key} in the local tier`,
+        serializeError(error)
+      );
+    },
+  });
+  recorder.flushSync();
+
+  const server = createCacheServer({
+    token: env.TURBO_TOKEN,
+    readOnlyToken: env.TURBO_READ_ONLY_TOKEN,
+    storage,
+    recorder,
+    logger,
+    signatureKey: env.SIGNATURE_KEY,
+    readOnly: env.READ_ONLY === 'true',
+  });
+
+  server.on('error', (error) => {
+    logger.fatal('Cache server failed', serializeError(error));
+    process.exit(1);
+  });
+  const bindAddress = env.BIND_ADDRESS ?? '127.0.0.1';
+  server.listen(Number(env.PORT), bindAddress, () => {
+    logger.info(`Cache server listening on ${bindAddress}:${env.PORT}`, {
+      storage: storage.name,
+      version: SERVER_VERSION,
+    });
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    logger.info(`Received ${signal}, shutting down`);
+    server.close();
+
+    // The post step escalates to SIGKILL if this takes too long, in which
+    // case the persisted in-flight count tells it how many uploads were lost
+    const pending = recorder.uploadsInFlight;
+    if (pending > 0) {
+      logger.info(`Waiting for ${pending} in-flight uploads to finish`);
+      while (recorder.uploadsInFlight > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      recorder.recordDrainedUploads(pending);
+    }
+
+    try {
+      recorder.flushSync();
+    } catch (error) {
+      logger.error('Could not persist cache stats', serializeError(error));
+    }
+    process.exit(0);
+  };
+  process.on('SIGTERM', (signal) => void shutdown(signal));
+  process.on('SIGINT', (signal) => void shutdown(signal));
+
+  return server;
+}
+
+// Only run main if this module is executed directly (not imported for testing)
+if (require.main === module) {
+  try {
+    runCacheServer(ServerEnvSchema.parse(process.env));
+  } catch (error) {
+    createLogger().fatal('Cache server failed to start', serializeError(error));
+    process.exit(1);
+  }
+}
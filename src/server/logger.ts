@@ -0,0 +1,62 @@
+export type LoggerLevel = 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+// Numeric levels match pino so the post step formats these lines like any
+// other pino output
+const LEVELS: Record<LoggerLevel, number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  fatal(msg: string, fields?: LogFields): void;
+}
+
+export function serializeError(error: unknown): LogFields {
+  return error instanceof Error
+    ? { err: { message: error.message, stack: error.stack } }
+    : { err: { message: String(error) } };
+}
+
+// Fatal lines go to stderr so the start step can quote them when the server
+// dies before becoming ready
+function writeToStdio(line: string, level: LoggerLevel): void {
+  (level === 'fatal' ? process.stderr : process.stdout).write(line);
+}
+
+export function createLogger(
+  minLevel: LoggerLevel = 'info',
+  write: (line: string, level: LoggerLevel) => void = writeToStdio
+): Logger {
+  const log = (level: LoggerLevel) => (msg: string, fields?: LogFields) => {
+    if (LEVELS[level] < LEVELS[minLevel]) {
+      return;
+    }
+    write(
+      `${JSON.stringify({
+        level: LEVELS[level],
+        time: Date.now(),
+        pid: process.pid,
+        ...fields,
+        msg,
+      })}\n`,
+      level
+    );
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    fatal: log('fatal'),
+  };
+}
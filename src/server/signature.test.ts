@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { deriveSignatureKey, signArtifact } from './signature';
+
+describe('server/signature.ts - Artifact Signatures', () => {
+  it('should sign the hash, team and body like turbo does', () => {
+    const expected = createHmac('sha256', 'key')
+      .update('abc123' + 'ci' + 'body')
+      .digest('base64');
+
+    expect(signArtifact('key', 'abc123', 'ci', Buffer.from('body'))).toBe(
+      expected
+    );
+  });
+
+  it('should derive the same key from the same secret and team', () => {
+    const key = deriveSignatureKey('secret', 'ci');
+
+    expect(deriveSignatureKey('secret', 'ci')).toBe(key);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(deriveSignatureKey('secret', 'other')).not.toBe(key);
+    expect(deriveSignatureKey('other', 'ci')).not.toBe(key);
+  });
+});
@@ -0,0 +1,71 @@
+import { createHmac, Hmac, timingSafeEqual } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+// Turbo signs the artifact hash and team id before the artifact body
+function createTagHmac(key: string, hash: string, team: string): Hmac {
+  return createHmac('sha256', key).update(hash).update(team);
+}
+
+/** Computes the x-artifact-tag turbo sends with a signed artifact. */
+export function signArtifact(
+  key: string,
+  hash: string,
+  team: string,
+  body: Buffer
+): string {
+  return createTagHmac(key, hash, team).update(body).digest('base64');
+}
+
+/**
+ * Derives a signing key from a shared secret, so every job given the same
+ * secret and team signs with the same key without storing the key itself.
+ */
+export function deriveSignatureKey(secret: string, team: string): string {
+  return createHmac('sha256', secret)
+    .update(`cache-rocket-signature:${team}`)
+    .digest('hex');
+}
+
+/**
+ * Passes an upload through unchanged while computing its signature, and
+ * fails the stream at the end if it does not match the expected tag so the
+ * storage provider discards the artifact.
+ */
+export class SignatureVerifier extends Transform {
+  rejected = false;
+
+  private readonly hmac: Hmac;
+
+  constructor(
+    key: string,
+    hash: string,
+    team: string,
+    private readonly tag: string
+  ) {
+    super();
+    this.hmac = createTagHmac(key, hash, team);
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    this.hmac.update(chunk);
+    callback(null, chunk);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    const expected = this.hmac.digest();
+    const provided = Buffer.from(this.tag, 'base64');
+    if (
+      provided.length !== expected.length ||
+      !timingSafeEqual(provided, expected)
+    ) {
+      this.rejected = true;
+      callback(new Error('Artifact signature does not match'));
+      return;
+    }
+    callback();
+  }
+}
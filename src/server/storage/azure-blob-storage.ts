@@ -0,0 +1,116 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  ReadRecorder,
+  ReadRecorderOptions,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import {
+  BlobServiceClient,
+  ContainerClient,
+  RestError,
+  StorageSharedKeyCredential,
+} from '@azure/storage-blob';
+import { Readable } from 'stream';
+
+const UPLOAD_BUFFER_SIZE = 4 * 1024 * 1024;
+const UPLOAD_CONCURRENCY = 4;
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof RestError && error.statusCode === 404;
+}
+
+export function createBlobServiceClient(
+  env: NodeJS.ProcessEnv
+): BlobServiceClient {
+  if (env.AZURE_STORAGE_CONNECTION_STRING) {
+    return BlobServiceClient.fromConnectionString(
+      env.AZURE_STORAGE_CONNECTION_STRING
+    );
+  }
+  const account = env.AZURE_STORAGE_ACCOUNT ?? '';
+  return new BlobServiceClient(
+    `https://${account}.blob.core.windows.net`,
+    new StorageSharedKeyCredential(account, env.AZURE_STORAGE_KEY ?? '')
+  );
+}
+
+/**
+ * Stores artifacts as block blobs in an Azure container, authenticated with
+ * AZURE_STORAGE_CONNECTION_STRING or AZURE_STORAGE_ACCOUNT/AZURE_STORAGE_KEY.
+ * Listings report the last access time when the account tracks it; without
+ * it, reads rewrite a blob's metadata at most once a day to move its last
+ * modified time.
+ */
+export class AzureBlobStorage implements StorageProvider {
+  readonly name = 'azure-blob-storage';
+  private readonly container: ContainerClient;
+  private readonly reads: ReadRecorder;
+
+  constructor(
+    containerName: string,
+    client: BlobServiceClient,
+    options: ReadRecorderOptions = {}
+  ) {
+    this.container = client.getContainerClient(containerName);
+    this.reads = new ReadRecorder(options);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.container.getBlockBlobClient(key).exists();
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    try {
+      const blob = this.container.getBlockBlobClient(key);
+      const response = await blob.download();
+      if (!response.readableStreamBody) {
+        return undefined;
+      }
+      if (!response.lastAccessed) {
+        this.reads.record(key, response.lastModified, () =>
+          blob.setMetadata(response.metadata)
+        );
+      }
+      return {
+        body: Readable.from(response.readableStreamBody),
+        size: response.contentLength,
+        metadata: response.metadata ?? {},
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    await this.container
+      .getBlockBlobClient(key)
+      .uploadStream(body, UPLOAD_BUFFER_SIZE, UPLOAD_CONCURRENCY, {
+        metadata,
+        blobHTTPHeaders: { blobContentType: 'application/octet-stream' },
+      });
+  }
+
+  async *list(prefix: string): AsyncIterable<ArtifactInfo> {
+    for await (const blob of this.container.listBlobsFlat({ prefix })) {
+      yield {
+        key: blob.name,
+        size: blob.properties.contentLength ?? 0,
+        lastUsedAt:
+          blob.properties.lastAccessedOn ?? blob.properties.lastModified,
+      };
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.container.getBlockBlobClient(key).deleteIfExists();
+  }
+}
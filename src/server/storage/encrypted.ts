@@ -0,0 +1,140 @@
+import {
+  ArtifactCipher,
+  ArtifactDecipher,
+  decryptedSize,
+  DecryptionError,
+  ENCRYPTION_ALGORITHM,
+  EncryptionKey,
+} from '../encryption';
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { Readable } from 'stream';
+
+// Metadata names must suit every provider, and Azure allows no dashes
+const METADATA_FIELD = 'encryption';
+
+// Settles once the first frame has been authenticated or the stream failed,
+// leaving the decrypted data buffered for whoever reads the stream next
+function firstFrame(stream: Readable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      stream.off('readable', onReadable);
+      stream.off('error', settle);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onReadable = () => settle();
+    stream.on('readable', onReadable);
+    stream.on('error', settle);
+  });
+}
+
+export interface EncryptedStorageOptions {
+  /** Called when an artifact cannot be decrypted; reads then miss */
+  onDecryptionError?: (key: string, error: DecryptionError) => void;
+}
+
+/**
+ * Encrypts artifact bodies with the first key before they reach storage
+ * and decrypts them on read with whichever key the artifact names in its
+ * metadata, so older keys keep working while being rotated out.
+ */
+export class EncryptedStorage implements StorageProvider {
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly keys: [EncryptionKey, ...EncryptionKey[]],
+    private readonly options: EncryptedStorageOptions = {}
+  ) {}
+
+  get name(): string {
+    return this.storage.name;
+  }
+
+  exists(key: string): Promise<boolean> {
+    return this.storage.exists(key);
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    const artifact = await this.storage.read(key);
+    if (!artifact) {
+      return undefined;
+    }
+    const { [METADATA_FIELD]: encryption, ...metadata } = artifact.metadata;
+    const encryptionKey = this.keyFor(encryption);
+    if (!encryptionKey) {
+      artifact.body.destroy();
+      this.options.onDecryptionError?.(
+        key,
+        new DecryptionError(
+          encryption
+            ? `it was encrypted with an unknown key (${encryption})`
+            : 'it is not encrypted'
+        )
+      );
+      return undefined;
+    }
+
+    const decipher = new ArtifactDecipher(encryptionKey, key);
+    artifact.body.on('error', (error) => decipher.destroy(error));
+    decipher.on('error', (error) => {
+      if (error instanceof DecryptionError) {
+        this.options.onDecryptionError?.(key, error);
+      }
+    });
+    const body = artifact.body.pipe(decipher);
+    // Authenticated before the caller sends a status, so a tampered
+    // artifact is a miss rather than a broken download. Only a later frame
+    // can still fail mid-stream.
+    try {
+      await firstFrame(body);
+    } catch (error) {
+      artifact.body.destroy();
+      if (error instanceof DecryptionError) {
+        return undefined;
+      }
+      throw error;
+    }
+    return {
+      ...artifact,
+      body,
+      size:
+        artifact.size === undefined ? undefined : decryptedSize(artifact.size),
+      metadata,
+    };
+  }
+
+  write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    const [current] = this.keys;
+    const cipher = new ArtifactCipher(current, key);
+    body.on('error', (error) => cipher.destroy(error));
+    return this.storage.write(key, body.pipe(cipher), {
+      ...metadata,
+      [METADATA_FIELD]: `${ENCRYPTION_ALGORITHM}/${current.id}`,
+    });
+  }
+
+  list(prefix: string): AsyncIterable<ArtifactInfo> {
+    return this.storage.list(prefix);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.storage.delete(key);
+  }
+
+  private keyFor(encryption: string | undefined): EncryptionKey | undefined {
+    return this.keys.find(
+      ({ id }) => encryption === `${ENCRYPTION_ALGORITHM}/${id}`
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { ApiError, Bucket, File, Storage } from '@google-cloud/storage';
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  ReadRecorder,
+  ReadRecorderOptions,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof ApiError && error.code === 404;
+}
+
+/**
+ * Stores artifacts in a Google Cloud Storage bucket, authenticated through
+ * GOOGLE_APPLICATION_CREDENTIALS. Reads move an object's custom time forward,
+ * at most once a day, and listings report it, else the last update.
+ */
+export class GoogleCloudStorage implements StorageProvider {
+  readonly name = 'google-cloud-storage';
+  private readonly bucket: Bucket;
+  private readonly reads: ReadRecorder;
+
+  constructor(
+    bucketName: string,
+    storage: Storage = new Storage(),
+    options: ReadRecorderOptions = {}
+  ) {
+    this.bucket = storage.bucket(bucketName);
+    this.reads = new ReadRecorder(options);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const [exists] = await this.bucket.file(key).exists();
+    return exists;
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    const file = this.bucket.file(key);
+    try {
+      const [metadata] = await file.getMetadata();
+      const lastUsed = metadata.customTime ?? metadata.updated;
+      this.reads.record(key, lastUsed ? new Date(lastUsed) : undefined, () =>
+        file.setMetadata({ customTime: new Date().toISOString() })
+      );
+      return {
+        body: file.createReadStream(),
+        size: metadata.size === undefined ? undefined : Number(metadata.size),
+        metadata: Object.fromEntries(
+          Object.entries(metadata.metadata ?? {}).map(([name, value]) => [
+            name,
+            String(value),
+          ])
+        ),
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    await pipeline(
+      body,
+      this.bucket.file(key).createWriteStream({
+        contentType: 'application/octet-stream',
+        metadata: { metadata },
+        resumable: false,
+      })
+    );
+  }
+
+  async *list(prefix: string): AsyncIterable<ArtifactInfo> {
+    for await (const file of this.bucket.getFilesStream({ prefix })) {
+      const { name, metadata } = file as File;
+      const lastUsed = metadata.customTime ?? metadata.updated;
+      if (lastUsed) {
+        yield {
+          key: name,
+          size: Number(metadata.size ?? 0),
+          lastUsedAt: new Date(lastUsed),
+        };
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ ignoreNotFound: true });
+  }
+}
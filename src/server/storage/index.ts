@@ -0,0 +1,184 @@
+import {
+  AzureBlobStorage,
+  createBlobServiceClient,
+} from './azure-blob-storage';
+import { createS3Client, S3Storage } from './s3';
+import { DecryptionError, deriveEncryptionKey } from '../encryption';
+import { EvictionResult, LocalStorage } from './local';
+import { EncryptedStorage } from './encrypted';
+import { GoogleCloudStorage } from './google-cloud-storage';
+import { MemoryStorage } from './memory';
+import { NamespacedStorage } from './namespaced';
+import { PrefixedStorage } from './prefixed';
+import { ServerEnv } from '../env';
+import { StorageProvider } from './storage';
+import { TieredStorage } from './tiered';
+import { WriteBehindStorage } from './write-behind';
+
+export type {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StorageTier,
+  StoredArtifact,
+} from './storage';
+
+export interface StorageHooks {
+  onEvict?: (result: EvictionResult) => void;
+  onLocalTierError?: (key: string, error: unknown) => void;
+  onUploadQueued?: (key: string) => void;
+  onUploadSettled?: (key: string, error?: unknown) => void;
+  onDecryptionError?: (key: string, error: DecryptionError) => void;
+  onRecordReadError?: (key: string, error: unknown) => void;
+}
+
+type StorageEnv = Pick<
+  ServerEnv,
+  | 'STORAGE_PROVIDER'
+  | 'STORAGE_PATH'
+  | 'MAX_CACHE_SIZE'
+  | 'STORAGE_PREFIX'
+  | 'S3_ENDPOINT'
+  | 'S3_REGION'
+  | 'S3_FORCE_PATH_STYLE'
+  | 'LOCAL_TIER_PATH'
+  | 'LOCAL_TIER_SIZE'
+  | 'ASYNC_UPLOADS_DIR'
+  | 'ENCRYPTION_KEYS'
+  | 'CACHE_NAMESPACE'
+  | 'CACHE_FALLBACK_NAMESPACES'
+>;
+
+export function createStorage(
+  env: StorageEnv,
+  processEnv: NodeJS.ProcessEnv = process.env,
+  hooks: StorageHooks = {}
+): StorageProvider {
+  // Layered from the provider outwards
+  let storage = createProviderStorage(env, processEnv, hooks);
+  storage = withPrefix(storage, env);
+  storage = withWriteBehind(storage, env, hooks);
+  storage = withLocalTier(storage, env, hooks);
+  storage = withEncryption(storage, env, hooks);
+  if (!env.CACHE_NAMESPACE) {
+    return storage;
+  }
+  return new NamespacedStorage(
+    storage,
+    env.CACHE_NAMESPACE,
+    env.CACHE_FALLBACK_NAMESPACES?.split(',').filter(Boolean)
+  );
+}
+
+function withPrefix(
+  storage: StorageProvider,
+  env: StorageEnv
+): StorageProvider {
+  return env.STORAGE_PREFIX
+    ? new PrefixedStorage(storage, env.STORAGE_PREFIX)
+    : storage;
+}
+
+function withWriteBehind(
+  storage: StorageProvider,
+  env: StorageEnv,
+  hooks: StorageHooks
+): StorageProvider {
+  if (!env.ASYNC_UPLOADS_DIR) {
+    return storage;
+  }
+  return new WriteBehindStorage(
+    new LocalStorage(env.ASYNC_UPLOADS_DIR),
+    storage,
+    {
+      onQueued: hooks.onUploadQueued,
+      onSettled: hooks.onUploadSettled,
+    }
+  );
+}
+
+function withLocalTier(
+  storage: StorageProvider,
+  env: StorageEnv,
+  hooks: StorageHooks
+): StorageProvider {
+  if (!env.LOCAL_TIER_PATH) {
+    return storage;
+  }
+  const local = new LocalStorage(env.LOCAL_TIER_PATH, {
+    maxBytes:
+      env.LOCAL_TIER_SIZE === undefined
+        ? undefined
+        : Number(env.LOCAL_TIER_SIZE),
+    onEvict: hooks.onEvict,
+  });
+  return new TieredStorage(local, storage, {
+    onLocalTierError: hooks.onLocalTierError,
+  });
+}
+
+function withEncryption(
+  storage: StorageProvider,
+  env: StorageEnv,
+  hooks: StorageHooks
+): StorageProvider {
+  const [current, ...previous] = (env.ENCRYPTION_KEYS ?? '')
+    .split('\n')
+    .filter(Boolean)
+    .map(deriveEncryptionKey);
+  if (!current) {
+    return storage;
+  }
+  return new EncryptedStorage(storage, [current, ...previous], {
+    onDecryptionError: hooks.onDecryptionError,
+  });
+}
+
+function createProviderStorage(
+  env: StorageEnv,
+  processEnv: NodeJS.ProcessEnv,
+  hooks: StorageHooks
+): StorageProvider {
+  const provider = env.STORAGE_PROVIDER ?? 'memory';
+  const requirePath = () => {
+    if (!env.STORAGE_PATH) {
+      throw new Error(`STORAGE_PATH is required for the ${provider} provider`);
+    }
+    return env.STORAGE_PATH;
+  };
+
+  const reads = { onRecordReadError: hooks.onRecordReadError };
+
+  switch (provider) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'local':
+      return new LocalStorage(requirePath(), {
+        maxBytes:
+          env.MAX_CACHE_SIZE === undefined
+            ? undefined
+            : Number(env.MAX_CACHE_SIZE),
+        onEvict: hooks.onEvict,
+      });
+    case 's3':
+      return new S3Storage(
+        requirePath(),
+        createS3Client({
+          endpoint: env.S3_ENDPOINT,
+          region: env.S3_REGION,
+          forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+        }),
+        reads
+      );
+    case 'google-cloud-storage':
+      return new GoogleCloudStorage(requirePath(), undefined, reads);
+    case 'azure-blob-storage':
+      return new AzureBlobStorage(
+        requirePath(),
+        createBlobServiceClient(processEnv),
+        reads
+      );
+    default:
+      throw new Error(`Unsupported storage provider: ${String(provider)}`);
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { LocalStorage } from './local';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+function artifact(size: number): Readable {
+  return Readable.from([Buffer.alloc(size, 'a')]);
+}
+
+describe('server/storage/local.ts - Local Storage', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'cache-rocket-local-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should round-trip artifacts and metadata through the filesystem', async () => {
+    const storage = new LocalStorage(root);
+
+    await storage.write('ci/abc', Readable.from(['hello']), { tag: 't' });
+    const result = await storage.read('ci/abc');
+
+    expect(existsSync(path.join(root, 'ci', 'abc'))).toBe(true);
+    expect(result?.size).toBe(5);
+    expect(result?.metadata).toEqual({ tag: 't' });
+    expect(await readAll(result!.body)).toBe('hello');
+  });
+
+  it('should find artifacts written by a previous server', async () => {
+    await new LocalStorage(root).write('ci/abc', artifact(3), {});
+
+    const storage = new LocalStorage(root);
+
+    expect(await storage.exists('ci/abc')).toBe(true);
+    expect(await storage.exists('ci/missing')).toBe(false);
+    expect(await storage.read('ci/missing')).toBeUndefined();
+  });
+
+  it('should not leave partial files behind when a write fails', async () => {
+    const storage = new LocalStorage(root);
+    const failing = new Readable({
+      read() {
+        this.destroy(new Error('client disconnected'));
+      },
+    });
+
+    await expect(storage.write('ci/abc', failing, {})).rejects.toThrow(
+      'client disconnected'
+    );
+    expect(await storage.exists('ci/abc')).toBe(false);
+    expect(await new LocalStorage(root).exists('ci/abc')).toBe(false);
+  });
+
+  it('should evict least recently used artifacts when writes exceed the limit', async () => {
+    const evictions: unknown[] = [];
+    const storage = new LocalStorage(root, {
+      maxBytes: 25,
+      onEvict: (result) => evictions.push(result),
+    });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(1_000_000);
+      await storage.write('ci/first', artifact(10), {});
+      vi.setSystemTime(2_000_000);
+      await storage.write('ci/second', artifact(10), {});
+      // Reading the first artifact makes the second one the LRU entry
+      vi.setSystemTime(3_000_000);
+      await storage.read('ci/first');
+      vi.setSystemTime(4_000_000);
+      await storage.write('ci/third', artifact(10), {});
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(await storage.exists('ci/first')).toBe(true);
+    expect(await storage.exists('ci/second')).toBe(false);
+    expect(await storage.exists('ci/third')).toBe(true);
+    expect(existsSync(path.join(root, 'ci', 'second'))).toBe(false);
+    expect(evictions).toEqual([{ artifacts: 1, bytes: 10 }]);
+  });
+
+  it('should never evict the artifact that was just written', async () => {
+    const storage = new LocalStorage(root, { maxBytes: 5 });
+
+    await storage.write('ci/big', artifact(10), {});
+
+    expect(await storage.exists('ci/big')).toBe(true);
+  });
+
+  it('should evict based on access times recorded on disk', async () => {
+    const seed = new LocalStorage(root);
+    await seed.write('ci/old', artifact(10), {});
+    await seed.write('ci/new', artifact(10), {});
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(path.join(root, 'ci', 'old'), past, past);
+
+    const result = await new LocalStorage(root).evict(15);
+
+    expect(result).toEqual({ artifacts: 1, bytes: 10 });
+    expect(existsSync(path.join(root, 'ci', 'old'))).toBe(false);
+    expect(existsSync(path.join(root, 'ci', 'old.meta.json'))).toBe(false);
+    expect(existsSync(path.join(root, 'ci', 'new'))).toBe(true);
+  });
+
+  it('should never index or evict files it did not write', async () => {
+    mkdirSync(path.join(root, 'ci'));
+    writeFileSync(path.join(root, 'notes.txt'), 'keep me');
+    writeFileSync(path.join(root, 'ci', 'config.json'), 'keep me too');
+    const storage = new LocalStorage(root);
+    await storage.write('ci/abc', artifact(10), {});
+
+    const result = await storage.evict(0);
+
+    expect(result).toEqual({ artifacts: 1, bytes: 10 });
+    expect(existsSync(path.join(root, 'notes.txt'))).toBe(true);
+    expect(existsSync(path.join(root, 'ci', 'config.json'))).toBe(true);
+    expect(await storage.exists('notes.txt')).toBe(false);
+  });
+
+  it('should report nothing to evict for a missing directory', async () => {
+    const storage = new LocalStorage(path.join(root, 'does-not-exist'));
+
+    expect(await storage.evict(0)).toEqual({ artifacts: 0, bytes: 0 });
+  });
+
+  it('should list artifacts under a prefix and delete them', async () => {
+    const storage = new LocalStorage(root);
+    await storage.write('ci/main/abc', artifact(4), {});
+    await storage.write('other/def', artifact(2), {});
+
+    const listed = [];
+    for await (const info of storage.list('ci/')) {
+      listed.push(info);
+    }
+    expect(listed).toEqual([
+      { key: 'ci/main/abc', size: 4, lastUsedAt: expect.any(Date) },
+    ]);
+
+    await storage.delete('ci/main/abc');
+    expect(await storage.exists('ci/main/abc')).toBe(false);
+    expect(existsSync(path.join(root, 'ci', 'main', 'abc.meta.json'))).toBe(
+      false
+    );
+  });
+
+  it('should refuse keys that resolve outside the root', async () => {
+    const storage = new LocalStorage(path.join(root, 'cache'));
+
+    await expect(
+      storage.write('../secret', Readable.from(['escaped']), {})
+    ).rejects.toThrow('resolves outside');
+    await expect(storage.read('ci/../../secret')).rejects.toThrow(
+      'resolves outside'
+    );
+    expect(existsSync(path.join(root, 'secret'))).toBe(false);
+  });
+});
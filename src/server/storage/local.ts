@@ -0,0 +1,221 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+
+const METADATA_SUFFIX = '.meta.json';
+const TEMP_SUFFIX = '.tmp';
+
+export interface EvictionResult {
+  artifacts: number;
+  bytes: number;
+}
+
+interface IndexEntry {
+  size: number;
+  accessedAt: number;
+}
+
+export interface LocalStorageOptions {
+  maxBytes?: number;
+  onEvict?: (result: EvictionResult) => void;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Stores artifacts as files below a directory on the runner. When `maxBytes`
+ * is set, the least recently used artifacts are evicted to stay under it.
+ *
+ * The last access time is tracked through each file's mtime, which is bumped
+ * on every read, because filesystem atimes are commonly disabled or lazy.
+ */
+export class LocalStorage implements StorageProvider {
+  readonly name = 'local';
+  private index: Promise<Map<string, IndexEntry>> | undefined;
+
+  constructor(
+    private readonly root: string,
+    private readonly options: LocalStorageOptions = {}
+  ) {}
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.loadIndex()).has(key);
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    const file = this.pathFor(key);
+    try {
+      const [stat, metadata] = await Promise.all([
+        fs.stat(file),
+        this.readMetadata(key),
+      ]);
+      const now = new Date();
+      await fs.utimes(file, now, now);
+      (await this.loadIndex()).set(key, {
+        size: stat.size,
+        accessedAt: now.getTime(),
+      });
+      return { body: createReadStream(file), size: stat.size, metadata };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    const file = this.pathFor(key);
+    const tempFile = `${file}.${randomBytes(6).toString('hex')}${TEMP_SUFFIX}`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    try {
+      await pipeline(body, createWriteStream(tempFile));
+      await fs.writeFile(`${file}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+      await fs.rename(tempFile, file);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+
+    const { size } = await fs.stat(file);
+    (await this.loadIndex()).set(key, { size, accessedAt: Date.now() });
+
+    if (this.options.maxBytes !== undefined) {
+      const result = await this.evict(this.options.maxBytes, key);
+      if (result.artifacts > 0) {
+        this.options.onEvict?.(result);
+      }
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<ArtifactInfo> {
+    // Copied so deleting while iterating does not skip entries
+    for (const [key, entry] of [...(await this.loadIndex())]) {
+      if (key.startsWith(prefix)) {
+        yield { key, size: entry.size, lastUsedAt: new Date(entry.accessedAt) };
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remove(key);
+    (await this.loadIndex()).delete(key);
+  }
+
+  /**
+   * Deletes least recently used artifacts until the cache fits in
+   * `maxBytes`. `keep` protects the artifact that was just written.
+   */
+  async evict(maxBytes: number, keep?: string): Promise<EvictionResult> {
+    const index = await this.loadIndex();
+    let total = [...index.values()].reduce((sum, e) => sum + e.size, 0);
+    const result: EvictionResult = { artifacts: 0, bytes: 0 };
+
+    const candidates = [...index.entries()]
+      .filter(([key]) => key !== keep)
+      .sort(([, a], [, b]) => a.accessedAt - b.accessedAt);
+
+    for (const [key, entry] of candidates) {
+      if (total <= maxBytes) {
+        break;
+      }
+      await this.remove(key);
+      index.delete(key);
+      total -= entry.size;
+      result.artifacts += 1;
+      result.bytes += entry.size;
+    }
+
+    return result;
+  }
+
+  private pathFor(key: string): string {
+    const file = path.resolve(this.root, ...key.split('/'));
+    const relative = path.relative(path.resolve(this.root), file);
+    if (
+      !relative ||
+      relative === '..' ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    ) {
+      throw new Error(`Key "${key}" resolves outside ${this.root}`);
+    }
+    return file;
+  }
+
+  private async remove(key: string): Promise<void> {
+    const file = this.pathFor(key);
+    await Promise.all([
+      fs.rm(file, { force: true }),
+      fs.rm(`${file}${METADATA_SUFFIX}`, { force: true }),
+    ]);
+  }
+
+  private async readMetadata(key: string): Promise<ArtifactMetadata> {
+    try {
+      const content = await fs.readFile(
+        `${this.pathFor(key)}${METADATA_SUFFIX}`,
+        'utf8'
+      );
+      return JSON.parse(content) as ArtifactMetadata;
+    } catch {
+      return {};
+    }
+  }
+
+  private loadIndex(): Promise<Map<string, IndexEntry>> {
+    this.index ??= this.scan(this.root, [], new Map());
+    return this.index;
+  }
+
+  private async scan(
+    dir: string,
+    segments: string[],
+    index: Map<string, IndexEntry>
+  ): Promise<Map<string, IndexEntry>> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return index;
+      }
+      throw error;
+    }
+
+    // Every artifact is written with a metadata file, so anything without
+    // one was put there by something else and must never be evicted
+    const names = new Set(entries.map((entry) => entry.name));
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await this.scan(entryPath, [...segments, entry.name], index);
+      } else if (
+        entry.isFile() &&
+        names.has(`${entry.name}${METADATA_SUFFIX}`)
+      ) {
+        const stat = await fs.stat(entryPath);
+        index.set([...segments, entry.name].join('/'), {
+          size: stat.size,
+          accessedAt: stat.mtimeMs,
+        });
+      }
+    }
+    return index;
+  }
+}
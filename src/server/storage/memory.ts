@@ -0,0 +1,64 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { Readable } from 'stream';
+
+interface MemoryEntry {
+  data: Buffer;
+  metadata: ArtifactMetadata;
+  usedAt: Date;
+}
+
+/** Keeps artifacts in process memory; they are gone once the server exits. */
+export class MemoryStorage implements StorageProvider {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  async exists(key: string): Promise<boolean> {
+    return this.entries.has(key);
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    entry.usedAt = new Date();
+    return {
+      body: Readable.from([entry.data]),
+      size: entry.data.length,
+      metadata: { ...entry.metadata },
+    };
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+    this.entries.set(key, {
+      data: Buffer.concat(chunks),
+      metadata,
+      usedAt: new Date(),
+    });
+  }
+
+  async *list(prefix: string): AsyncIterable<ArtifactInfo> {
+    for (const [key, entry] of this.entries) {
+      if (key.startsWith(prefix)) {
+        yield { key, size: entry.data.length, lastUsedAt: entry.usedAt };
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
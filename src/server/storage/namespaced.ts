@@ -0,0 +1,71 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { Readable } from 'stream';
+
+/**
+ * Places artifacts in a namespace below their team, turning `<team>/<hash>`
+ * keys into `<team>/<namespace>/<hash>`. Writes go to the namespace; reads
+ * fall back to the read-only namespaces in order. Listing and deleting work
+ * on the underlying keys, across all namespaces.
+ */
+export class NamespacedStorage implements StorageProvider {
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly namespace: string,
+    private readonly fallbacks: string[] = []
+  ) {}
+
+  get name(): string {
+    return this.storage.name;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    for (const candidate of this.candidates(key)) {
+      if (await this.storage.exists(candidate)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    for (const candidate of this.candidates(key)) {
+      const artifact = await this.storage.read(candidate);
+      if (artifact) {
+        return artifact;
+      }
+    }
+    return undefined;
+  }
+
+  write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    return this.storage.write(this.keyIn(this.namespace, key), body, metadata);
+  }
+
+  list(prefix: string): AsyncIterable<ArtifactInfo> {
+    return this.storage.list(prefix);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.storage.delete(key);
+  }
+
+  private candidates(key: string): string[] {
+    return [this.namespace, ...this.fallbacks].map((namespace) =>
+      this.keyIn(namespace, key)
+    );
+  }
+
+  private keyIn(namespace: string, key: string): string {
+    const separator = key.indexOf('/');
+    return `${key.slice(0, separator)}/${namespace}${key.slice(separator)}`;
+  }
+}
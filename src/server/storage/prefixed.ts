@@ -0,0 +1,53 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { Readable } from 'stream';
+
+/**
+ * Keeps every artifact below `<prefix>/` so a bucket can be shared with
+ * other data. Listed keys are reported without the prefix.
+ */
+export class PrefixedStorage implements StorageProvider {
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly prefix: string
+  ) {}
+
+  get name(): string {
+    return this.storage.name;
+  }
+
+  exists(key: string): Promise<boolean> {
+    return this.storage.exists(this.keyFor(key));
+  }
+
+  read(key: string): Promise<StoredArtifact | undefined> {
+    return this.storage.read(this.keyFor(key));
+  }
+
+  write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    return this.storage.write(this.keyFor(key), body, metadata);
+  }
+
+  async *list(prefix: string): AsyncIterable<ArtifactInfo> {
+    const start = this.keyFor('').length;
+    for await (const artifact of this.storage.list(this.keyFor(prefix))) {
+      yield { ...artifact, key: artifact.key.slice(start) };
+    }
+  }
+
+  delete(key: string): Promise<void> {
+    return this.storage.delete(this.keyFor(key));
+  }
+
+  private keyFor(key: string): string {
+    return `${this.prefix}/${key}`;
+  }
+}
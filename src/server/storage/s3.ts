@@ -0,0 +1,166 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  ReadRecorder,
+  ReadRecorderOptions,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  paginateListObjectsV2,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { Upload } from '@aws-sdk/lib-storage';
+
+export interface S3ClientOptions {
+  endpoint?: string;
+  region?: string;
+  forcePathStyle?: boolean;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof S3ServiceException &&
+    (error.name === 'NoSuchKey' ||
+      error.name === 'NotFound' ||
+      error.$metadata.httpStatusCode === 404)
+  );
+}
+
+export function createS3Client({
+  endpoint,
+  region,
+  forcePathStyle,
+}: S3ClientOptions = {}): S3Client {
+  return new S3Client({
+    ...(region && { region }),
+    ...(endpoint && {
+      endpoint,
+      // Many S3-compatible services reject the checksums the SDK sends by
+      // default, so only send them where the S3 API requires them
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+    }),
+    forcePathStyle,
+  });
+}
+
+/**
+ * Stores artifacts as objects in an S3 bucket, credentials from the AWS env.
+ * S3 does not track reads, so a read copies an object onto itself, at most
+ * once a day, to move the last modified time listings report.
+ */
+export class S3Storage implements StorageProvider {
+  readonly name = 's3';
+  private readonly reads: ReadRecorder;
+
+  constructor(
+    private readonly bucket: string,
+    private readonly client: S3Client = new S3Client({}),
+    options: ReadRecorderOptions = {}
+  ) {
+    this.reads = new ReadRecorder(options);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      const metadata = response.Metadata ?? {};
+      this.reads.record(key, response.LastModified, () =>
+        this.recordRead(key, metadata)
+      );
+      return {
+        body: response.Body as Readable,
+        size: response.ContentLength,
+        metadata,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async recordRead(
+    key: string,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        CopySource: `${this.bucket}/${encodeURIComponent(key)}`,
+        // S3 refuses a copy onto itself that changes nothing
+        MetadataDirective: 'REPLACE',
+        Metadata: metadata,
+        ContentType: 'application/octet-stream',
+      })
+    );
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    // Upload handles bodies of unknown length by switching to multipart
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: 'application/octet-stream',
+        Metadata: metadata,
+      },
+    }).done();
+  }
+
+  async *list(prefix: string): AsyncIterable<ArtifactInfo> {
+    const pages = paginateListObjectsV2(
+      { client: this.client },
+      { Bucket: this.bucket, Prefix: prefix }
+    );
+    for await (const page of pages) {
+      for (const object of page.Contents ?? []) {
+        if (object.Key && object.LastModified) {
+          yield {
+            key: object.Key,
+            size: object.Size ?? 0,
+            lastUsedAt: object.LastModified,
+          };
+        }
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 deletes succeed for missing keys
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+}
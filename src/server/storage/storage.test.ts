@@ -0,0 +1,521 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { createStorage } from './index';
+import { MemoryStorage } from './memory';
+import { NamespacedStorage } from './namespaced';
+import { EncryptedStorage } from './encrypted';
+import { DecryptionError, deriveEncryptionKey } from '../encryption';
+import { PrefixedStorage } from './prefixed';
+import { LocalStorage } from './local';
+import { S3Storage } from './s3';
+import type { ReadRecorderOptions } from './storage';
+import { GoogleCloudStorage } from './google-cloud-storage';
+import type { Storage } from '@google-cloud/storage';
+import { AzureBlobStorage } from './azure-blob-storage';
+import { TieredStorage } from './tiered';
+import { WriteBehindStorage } from './write-behind';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('server/storage - Storage Providers', () => {
+  describe('createStorage', () => {
+    it('should default to in-memory storage', () => {
+      expect(createStorage({})).toBeInstanceOf(MemoryStorage);
+    });
+
+    it('should create cloud providers for their bucket', () => {
+      expect(
+        createStorage({ STORAGE_PROVIDER: 's3', STORAGE_PATH: 'bucket' })
+      ).toBeInstanceOf(S3Storage);
+      expect(
+        createStorage({
+          STORAGE_PROVIDER: 'google-cloud-storage',
+          STORAGE_PATH: 'bucket',
+        })
+      ).toBeInstanceOf(GoogleCloudStorage);
+      expect(
+        createStorage(
+          {
+            STORAGE_PROVIDER: 'azure-blob-storage',
+            STORAGE_PATH: 'container',
+          },
+          {
+            AZURE_STORAGE_ACCOUNT: 'account',
+            AZURE_STORAGE_KEY: Buffer.from('key').toString('base64'),
+          }
+        )
+      ).toBeInstanceOf(AzureBlobStorage);
+    });
+
+    it('should create a local provider for a directory', () => {
+      expect(
+        createStorage({
+          STORAGE_PROVIDER: 'local',
+          STORAGE_PATH: '/runner/cache',
+          MAX_CACHE_SIZE: '1024',
+        })
+      ).toBeInstanceOf(LocalStorage);
+    });
+
+    it('should namespace storage for branch-scoped caches', () => {
+      expect(
+        createStorage({
+          CACHE_NAMESPACE: 'feature-login',
+          CACHE_FALLBACK_NAMESPACES: 'main',
+        })
+      ).toBeInstanceOf(NamespacedStorage);
+    });
+
+    it('should keep artifacts below a storage prefix', () => {
+      expect(
+        createStorage({
+          STORAGE_PROVIDER: 's3',
+          STORAGE_PATH: 'bucket',
+          STORAGE_PREFIX: 'turbo',
+          S3_ENDPOINT: 'http://127.0.0.1:9000',
+          S3_REGION: 'auto',
+          S3_FORCE_PATH_STYLE: 'true',
+        })
+      ).toBeInstanceOf(PrefixedStorage);
+    });
+
+    it('should encrypt artifacts when given encryption keys', () => {
+      expect(
+        createStorage({
+          STORAGE_PROVIDER: 's3',
+          STORAGE_PATH: 'bucket',
+          ENCRYPTION_KEYS: 'current-secret-value\nprevious-secret-value',
+        })
+      ).toBeInstanceOf(EncryptedStorage);
+    });
+
+    it('should put a local tier in front of a remote provider', () => {
+      expect(
+        createStorage({
+          STORAGE_PROVIDER: 's3',
+          STORAGE_PATH: 'bucket',
+          LOCAL_TIER_PATH: '/runner/tier',
+          LOCAL_TIER_SIZE: '1024',
+        })
+      ).toBeInstanceOf(TieredStorage);
+    });
+
+    it('should require a storage path for cloud providers', () => {
+      expect(() => createStorage({ STORAGE_PROVIDER: 's3' })).toThrow(
+        'STORAGE_PATH is required for the s3 provider'
+      );
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => createStorage({ STORAGE_PROVIDER: 'ftp' as never })).toThrow(
+        'Unsupported storage provider: ftp'
+      );
+    });
+  });
+
+  describe('MemoryStorage', () => {
+    it('should round-trip artifacts and metadata', async () => {
+      const storage = new MemoryStorage();
+
+      await storage.write('ci/abc', Readable.from(['hello ', 'world']), {
+        duration: '12',
+      });
+      const artifact = await storage.read('ci/abc');
+
+      expect(await storage.exists('ci/abc')).toBe(true);
+      expect(artifact?.size).toBe(11);
+      expect(artifact?.metadata).toEqual({ duration: '12' });
+      expect(await readAll(artifact!.body)).toBe('hello world');
+    });
+
+    it('should report missing artifacts', async () => {
+      const storage = new MemoryStorage();
+
+      expect(await storage.exists('ci/missing')).toBe(false);
+      expect(await storage.read('ci/missing')).toBeUndefined();
+    });
+  });
+
+  describe('GoogleCloudStorage', () => {
+    function createGcs(customTime?: string, options: ReadRecorderOptions = {}) {
+      const file = {
+        getMetadata: vi
+          .fn()
+          .mockResolvedValue([
+            { size: '5', customTime, updated: '2020-01-01T00:00:00Z' },
+          ]),
+        setMetadata: vi.fn().mockResolvedValue([{}]),
+        createReadStream: () => Readable.from(['hello']),
+      };
+      const storage = new GoogleCloudStorage(
+        'turbo',
+        { bucket: () => ({ file: () => file }) } as unknown as Storage,
+        options
+      );
+      return { storage, file };
+    }
+
+    it('should move the custom time forward when reading a stale object', async () => {
+      const { storage, file } = createGcs();
+
+      await storage.read('ci/abc');
+
+      expect(file.setMetadata).toHaveBeenCalledWith({
+        customTime: expect.any(String),
+      });
+    });
+
+    it('should record a read at most once a day', async () => {
+      const { storage, file } = createGcs(new Date().toISOString());
+
+      await storage.read('ci/abc');
+
+      expect(file.setMetadata).not.toHaveBeenCalled();
+    });
+
+    it('should serve reads without waiting for or failing on the touch', async () => {
+      const onRecordReadError = vi.fn();
+      const { storage, file } = createGcs(undefined, { onRecordReadError });
+      let reject: (error: Error) => void = () => undefined;
+      file.setMetadata.mockReturnValue(
+        new Promise((_resolve, rejectTouch) => {
+          reject = rejectTouch;
+        })
+      );
+
+      const artifact = await storage.read('ci/abc');
+      expect(await readAll(artifact!.body)).toBe('hello');
+
+      // A second read while the first touch is pending does not touch again
+      await storage.read('ci/abc');
+      reject(new Error('Forbidden'));
+      await vi.waitFor(() =>
+        expect(onRecordReadError).toHaveBeenCalledWith(
+          'ci/abc',
+          new Error('Forbidden')
+        )
+      );
+      expect(file.setMetadata).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('NamespacedStorage', () => {
+    it('should write into the namespace below the team', async () => {
+      const inner = new MemoryStorage();
+      const storage = new NamespacedStorage(inner, 'feature-login', ['main']);
+
+      await storage.write('ci/abc', Readable.from(['branch']), {});
+
+      expect(await inner.exists('ci/feature-login/abc')).toBe(true);
+      expect(await inner.exists('ci/main/abc')).toBe(false);
+      expect(storage.name).toBe('memory');
+    });
+
+    it('should read through to the fallback namespaces in order', async () => {
+      const inner = new MemoryStorage();
+      await inner.write('ci/main/abc', Readable.from(['main']), {});
+      await inner.write('ci/release/abc', Readable.from(['release']), {});
+      await inner.write('ci/release/def', Readable.from(['release']), {});
+      const storage = new NamespacedStorage(inner, 'feature-login', [
+        'main',
+        'release',
+      ]);
+
+      expect(await readAll((await storage.read('ci/abc'))!.body)).toBe('main');
+      expect(await readAll((await storage.read('ci/def'))!.body)).toBe(
+        'release'
+      );
+      expect(await storage.exists('ci/def')).toBe(true);
+      expect(await storage.read('ci/missing')).toBeUndefined();
+      expect(await storage.exists('ci/missing')).toBe(false);
+    });
+
+    it('should prefer the branch namespace over the fallbacks', async () => {
+      const inner = new MemoryStorage();
+      await inner.write('ci/main/abc', Readable.from(['main']), {});
+      const storage = new NamespacedStorage(inner, 'feature-login', ['main']);
+
+      await storage.write('ci/abc', Readable.from(['branch']), {});
+
+      expect(await readAll((await storage.read('ci/abc'))!.body)).toBe(
+        'branch'
+      );
+      expect(await readAll((await inner.read('ci/main/abc'))!.body)).toBe(
+        'main'
+      );
+    });
+  });
+
+  describe('PrefixedStorage', () => {
+    it('should store below the prefix and list keys without it', async () => {
+      const inner = new MemoryStorage();
+      const storage = new PrefixedStorage(inner, 'shared/turbo');
+
+      await storage.write('ci/abc', Readable.from(['hello']), {});
+      await inner.write('ci/def', Readable.from(['other']), {});
+
+      expect(await inner.exists('shared/turbo/ci/abc')).toBe(true);
+      expect(await storage.exists('ci/abc')).toBe(true);
+      expect(await storage.exists('ci/def')).toBe(false);
+      expect(await readAll((await storage.read('ci/abc'))!.body)).toBe('hello');
+
+      const keys = [];
+      for await (const { key } of storage.list('ci/')) {
+        keys.push(key);
+      }
+      expect(keys).toEqual(['ci/abc']);
+
+      await storage.delete('ci/abc');
+      expect(await inner.exists('shared/turbo/ci/abc')).toBe(false);
+    });
+  });
+
+  describe('TieredStorage', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(path.join(tmpdir(), 'cache-rocket-tier-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should write to both tiers and serve reads locally', async () => {
+      const local = new LocalStorage(root);
+      const remote = new MemoryStorage();
+      const storage = new TieredStorage(local, remote);
+
+      await storage.write('ci/abc', Readable.from(['hello']), { tag: 't' });
+      const artifact = await storage.read('ci/abc');
+
+      expect(await remote.exists('ci/abc')).toBe(true);
+      expect(artifact?.tier).toBe('local');
+      expect(artifact?.metadata).toEqual({ tag: 't' });
+      expect(await readAll(artifact!.body)).toBe('hello');
+    });
+
+    it('should read through remote hits and keep them locally', async () => {
+      const local = new LocalStorage(root);
+      const remote = new MemoryStorage();
+      await remote.write('ci/abc', Readable.from(['remote']), {});
+      const storage = new TieredStorage(local, remote);
+
+      const first = await storage.read('ci/abc');
+      expect(first?.tier).toBe('remote');
+      expect(await readAll(first!.body)).toBe('remote');
+
+      expect(await local.exists('ci/abc')).toBe(true);
+      expect((await storage.read('ci/abc'))?.tier).toBe('local');
+      expect(await storage.read('ci/missing')).toBeUndefined();
+    });
+
+    it('should drop the local copy when the remote upload fails', async () => {
+      const local = new LocalStorage(root);
+      const remote = new MemoryStorage();
+      remote.write = () => Promise.reject(new Error('AccessDenied'));
+      const storage = new TieredStorage(local, remote);
+
+      await expect(
+        storage.write('ci/abc', Readable.from(['hello']), {})
+      ).rejects.toThrow('AccessDenied');
+      expect(await local.exists('ci/abc')).toBe(false);
+    });
+  });
+
+  describe('WriteBehindStorage', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(path.join(tmpdir(), 'cache-rocket-staging-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should acknowledge writes before uploading them in the background', async () => {
+      const remote = new MemoryStorage();
+      let release: () => void = () => {};
+      const blocked = new Promise<void>((resolve) => (release = resolve));
+      const upload = remote.write.bind(remote);
+      remote.write = async (...args) => {
+        await blocked;
+        return upload(...args);
+      };
+      const onSettled = vi.fn();
+      const storage = new WriteBehindStorage(new LocalStorage(root), remote, {
+        onSettled,
+      });
+
+      await storage.write('ci/abc', Readable.from(['hello']), { tag: 't' });
+      expect(await remote.exists('ci/abc')).toBe(false);
+      // Served from staging while the upload is pending
+      expect(await storage.exists('ci/abc')).toBe(true);
+      expect(await readAll((await storage.read('ci/abc'))!.body)).toBe('hello');
+
+      release();
+      await vi.waitFor(() =>
+        expect(onSettled).toHaveBeenCalledWith('ci/abc', undefined)
+      );
+      expect((await remote.read('ci/abc'))?.metadata).toEqual({ tag: 't' });
+      expect(await new LocalStorage(root).exists('ci/abc')).toBe(false);
+    });
+
+    it('should bound the number of concurrent uploads', async () => {
+      const remote = new MemoryStorage();
+      let active = 0;
+      let peak = 0;
+      const upload = remote.write.bind(remote);
+      remote.write = async (...args) => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active -= 1;
+        return upload(...args);
+      };
+      const onSettled = vi.fn();
+      const storage = new WriteBehindStorage(new LocalStorage(root), remote, {
+        concurrency: 2,
+        onSettled,
+      });
+
+      for (const hash of ['a', 'b', 'c', 'd', 'e']) {
+        await storage.write(`ci/${hash}`, Readable.from([hash]), {});
+      }
+      await vi.waitFor(() => expect(onSettled).toHaveBeenCalledTimes(5));
+
+      expect(peak).toBe(2);
+    });
+
+    it('should report uploads that fail after every retry', async () => {
+      const remote = new MemoryStorage();
+      remote.write = vi.fn().mockRejectedValue(new Error('AccessDenied'));
+      const onSettled = vi.fn();
+      const storage = new WriteBehindStorage(new LocalStorage(root), remote, {
+        retryDelayMs: 1,
+        onSettled,
+      });
+
+      await storage.write('ci/abc', Readable.from(['hello']), {});
+      await vi.waitFor(() => expect(onSettled).toHaveBeenCalled());
+
+      expect(remote.write).toHaveBeenCalledTimes(3);
+      expect(onSettled).toHaveBeenCalledWith(
+        'ci/abc',
+        new Error('AccessDenied')
+      );
+    });
+
+    it('should requeue uploads staged before a restart', async () => {
+      await new LocalStorage(root).write('ci/abc', Readable.from(['x']), {});
+      const remote = new MemoryStorage();
+      const onQueued = vi.fn();
+
+      new WriteBehindStorage(new LocalStorage(root), remote, { onQueued });
+
+      await vi.waitFor(async () =>
+        expect(await remote.exists('ci/abc')).toBe(true)
+      );
+      expect(onQueued).toHaveBeenCalledWith('ci/abc');
+    });
+  });
+
+  describe('EncryptedStorage', () => {
+    const current = deriveEncryptionKey('current-secret-value');
+    const previous = deriveEncryptionKey('previous-secret-value');
+
+    it('should store ciphertext tagged with the key id', async () => {
+      const inner = new MemoryStorage();
+      const storage = new EncryptedStorage(inner, [current]);
+
+      await storage.write('ci/abc', Readable.from(['proprietary bundle']), {
+        duration: '12',
+      });
+      const stored = await inner.read('ci/abc');
+      const artifact = await storage.read('ci/abc');
+
+      expect(stored?.metadata).toEqual({
+        duration: '12',
+        encryption: `aes-256-gcm/${current.id}`,
+      });
+      expect(await readAll(stored!.body)).not.toContain('proprietary');
+      expect(artifact?.metadata).toEqual({ duration: '12' });
+      expect(artifact?.size).toBe(18);
+      expect(await readAll(artifact!.body)).toBe('proprietary bundle');
+    });
+
+    it('should not decrypt an object copied onto another artifact', async () => {
+      const inner = new MemoryStorage();
+      const onDecryptionError = vi.fn();
+      const storage = new EncryptedStorage(inner, [current], {
+        onDecryptionError,
+      });
+      await storage.write('ci/abc', Readable.from(['bundle a']), {});
+      const stored = await inner.read('ci/abc');
+      await inner.write('ci/def', stored!.body, stored!.metadata);
+
+      expect(await storage.read('ci/def')).toBeUndefined();
+      expect(onDecryptionError).toHaveBeenCalledWith(
+        'ci/def',
+        expect.any(DecryptionError)
+      );
+    });
+
+    it('should stream artifacts spanning several frames', async () => {
+      const storage = new EncryptedStorage(new MemoryStorage(), [current]);
+      const body = 'x'.repeat(200 * 1024);
+      await storage.write('ci/abc', Readable.from([body]), {});
+
+      expect(await readAll((await storage.read('ci/abc'))!.body)).toBe(body);
+    });
+
+    it('should decrypt artifacts written with a previous key', async () => {
+      const inner = new MemoryStorage();
+      await new EncryptedStorage(inner, [previous]).write(
+        'ci/abc',
+        Readable.from(['old']),
+        {}
+      );
+      const storage = new EncryptedStorage(inner, [current, previous]);
+
+      expect(await readAll((await storage.read('ci/abc'))!.body)).toBe('old');
+    });
+
+    it('should miss and report artifacts it cannot decrypt', async () => {
+      const inner = new MemoryStorage();
+      await new EncryptedStorage(inner, [previous]).write(
+        'ci/abc',
+        Readable.from(['old']),
+        {}
+      );
+      await inner.write('ci/def', Readable.from(['plain']), {});
+      const onDecryptionError = vi.fn();
+      const storage = new EncryptedStorage(inner, [current], {
+        onDecryptionError,
+      });
+
+      expect(await storage.read('ci/abc')).toBeUndefined();
+      expect(await storage.read('ci/def')).toBeUndefined();
+      expect(onDecryptionError).toHaveBeenCalledWith(
+        'ci/abc',
+        expect.objectContaining({
+          message: `it was encrypted with an unknown key (aes-256-gcm/${previous.id})`,
+        })
+      );
+      expect(onDecryptionError).toHaveBeenCalledWith(
+        'ci/def',
+        expect.objectContaining({ message: 'it is not encrypted' })
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { Readable } from 'stream';
+
+/**
+ * Free-form string metadata stored alongside each artifact. `duration` and
+ * `tag` carry turbo's `x-artifact-duration` and `x-artifact-tag` headers.
+ */
+export type ArtifactMetadata = Record<string, string>;
+
+export type StorageTier = 'local' | 'remote';
+
+export interface StoredArtifact {
+  body: Readable;
+  size?: number;
+  metadata: ArtifactMetadata;
+  /** Which tier served the artifact, when reading through a tiered cache */
+  tier?: StorageTier;
+}
+
+/**
+ * Providers that do not track reads record one by touching the object, at
+ * most this often, so pruning does not delete artifacts that are still read.
+ */
+export const READ_RECORD_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function shouldRecordRead(lastUsedAt: Date | undefined): boolean {
+  return (
+    !lastUsedAt || Date.now() - lastUsedAt.getTime() >= READ_RECORD_INTERVAL_MS
+  );
+}
+
+export interface ReadRecorderOptions {
+  /** Called when a read could not be recorded; the read itself still hits */
+  onRecordReadError?: (key: string, error: unknown) => void;
+}
+
+/**
+ * Touches objects in the background, one at a time per key, so a hit never
+ * waits on the extra round trip or fails because of it, e.g. when the
+ * credentials may read but not write.
+ */
+export class ReadRecorder {
+  private readonly pending = new Set<string>();
+
+  constructor(private readonly options: ReadRecorderOptions = {}) {}
+
+  record(
+    key: string,
+    lastUsedAt: Date | undefined,
+    touch: () => Promise<unknown>
+  ): void {
+    if (this.pending.has(key) || !shouldRecordRead(lastUsedAt)) {
+      return;
+    }
+    this.pending.add(key);
+    void touch()
+      .catch((error: unknown) => this.options.onRecordReadError?.(key, error))
+      .finally(() => this.pending.delete(key));
+  }
+}
+
+/** A stored artifact as seen when listing a provider. */
+export interface ArtifactInfo {
+  key: string;
+  size: number;
+  /**
+   * When the artifact was last read or written. Providers that do not track
+   * reads report the last write.
+   */
+  lastUsedAt: Date;
+}
+
+/**
+ * Backend that persists artifacts. Keys are `<team>/<hash>` paths; providers
+ * map them onto files, objects or blobs however suits them.
+ */
+export interface StorageProvider {
+  readonly name: string;
+  exists(key: string): Promise<boolean>;
+  read(key: string): Promise<StoredArtifact | undefined>;
+  write(key: string, body: Readable, metadata: ArtifactMetadata): Promise<void>;
+  /** Lists the artifacts whose keys start with `prefix`. */
+  list(prefix: string): AsyncIterable<ArtifactInfo>;
+  /** Deletes an artifact; deleting a missing artifact is not an error. */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,84 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { LocalStorage } from './local';
+import { Readable } from 'stream';
+
+export interface TieredStorageOptions {
+  /** Called when an artifact read from the remote tier cannot be kept locally */
+  onLocalTierError?: (key: string, error: unknown) => void;
+}
+
+/**
+ * Puts a local disk tier in front of a remote provider. Reads try the local
+ * tier first and populate it from the remote tier on a miss; writes land on
+ * disk and are then uploaded from there. Listing and deleting go to the
+ * remote tier, which holds every artifact.
+ */
+export class TieredStorage implements StorageProvider {
+  constructor(
+    private readonly local: LocalStorage,
+    private readonly remote: StorageProvider,
+    private readonly options: TieredStorageOptions = {}
+  ) {}
+
+  get name(): string {
+    return `${this.local.name}+${this.remote.name}`;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.local.exists(key)) || this.remote.exists(key);
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    const cached = await this.local.read(key);
+    if (cached) {
+      return { ...cached, tier: 'local' };
+    }
+
+    const artifact = await this.remote.read(key);
+    if (!artifact) {
+      return undefined;
+    }
+    try {
+      await this.local.write(key, artifact.body, artifact.metadata);
+    } catch (error) {
+      this.options.onLocalTierError?.(key, error);
+      // The first body was consumed by the failed write
+      const retry = await this.remote.read(key);
+      return retry && { ...retry, tier: 'remote' };
+    }
+    const populated = await this.local.read(key);
+    return populated && { ...populated, tier: 'remote' };
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    await this.local.write(key, body, metadata);
+    const stored = await this.local.read(key);
+    if (!stored) {
+      throw new Error(`Artifact ${key} is missing from the local tier`);
+    }
+    try {
+      await this.remote.write(key, stored.body, metadata);
+    } catch (error) {
+      // Keep the tiers consistent so the failed upload is retried next time
+      await this.local.delete(key);
+      throw error;
+    }
+  }
+
+  list(prefix: string): AsyncIterable<ArtifactInfo> {
+    return this.remote.list(prefix);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([this.local.delete(key), this.remote.delete(key)]);
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  ArtifactInfo,
+  ArtifactMetadata,
+  StorageProvider,
+  StoredArtifact,
+} from './storage';
+import { LocalStorage } from './local';
+import { Readable } from 'stream';
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 4;
+export const UPLOAD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+export interface WriteBehindOptions {
+  concurrency?: number;
+  retryDelayMs?: number;
+  onQueued?: (key: string) => void;
+  /** Called once per queued upload, with the error if every attempt failed */
+  onSettled?: (key: string, error?: unknown) => void;
+}
+
+/**
+ * Acknowledges writes once they are staged on local disk and uploads them
+ * to the remote provider in the background, at most `concurrency` at a
+ * time. Staged artifacts are served from disk until their upload finishes.
+ */
+export class WriteBehindStorage implements StorageProvider {
+  private readonly pending = new Set<string>();
+  private readonly queue: string[] = [];
+  private active = 0;
+
+  constructor(
+    private readonly staging: LocalStorage,
+    private readonly remote: StorageProvider,
+    private readonly options: WriteBehindOptions = {}
+  ) {
+    // Uploads staged before a crash are picked up by the restarted server
+    void this.requeueStaged();
+  }
+
+  get name(): string {
+    return this.remote.name;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.pending.has(key) || this.remote.exists(key);
+  }
+
+  async read(key: string): Promise<StoredArtifact | undefined> {
+    if (this.pending.has(key)) {
+      const staged = await this.staging.read(key);
+      if (staged) {
+        return staged;
+      }
+    }
+    return this.remote.read(key);
+  }
+
+  async write(
+    key: string,
+    body: Readable,
+    metadata: ArtifactMetadata
+  ): Promise<void> {
+    await this.staging.write(key, body, metadata);
+    this.enqueue(key);
+  }
+
+  list(prefix: string): AsyncIterable<ArtifactInfo> {
+    return this.remote.list(prefix);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remote.delete(key);
+  }
+
+  private enqueue(key: string): void {
+    // Artifacts are content-addressed, so a queued upload already covers it
+    if (this.pending.has(key)) {
+      return;
+    }
+    this.pending.add(key);
+    this.queue.push(key);
+    this.options.onQueued?.(key);
+    this.next();
+  }
+
+  private async requeueStaged(): Promise<void> {
+    try {
+      for await (const { key } of this.staging.list('')) {
+        this.enqueue(key);
+      }
+    } catch {
+      // Nothing was staged, or the directory cannot be read yet
+    }
+  }
+
+  private next(): void {
+    const concurrency = this.options.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY;
+    while (this.active < concurrency && this.queue.length > 0) {
+      const key = this.queue.shift() as string;
+      this.active += 1;
+      void this.upload(key).finally(() => {
+        this.active -= 1;
+        this.pending.delete(key);
+        this.next();
+      });
+    }
+  }
+
+  private async upload(key: string): Promise<void> {
+    const retryDelayMs = this.options.retryDelayMs ?? RETRY_DELAY_MS;
+    let failure: unknown;
+    for (let attempt = 1; attempt <= UPLOAD_ATTEMPTS; attempt++) {
+      try {
+        const staged = await this.staging.read(key);
+        if (!staged) {
+          throw new Error(`Artifact ${key} is missing from the upload staging`);
+        }
+        await this.remote.write(key, staged.body, staged.metadata);
+        failure = undefined;
+        break;
+      } catch (error) {
+        failure = error ?? new Error(`Uploading ${key} failed`);
+        if (attempt < UPLOAD_ATTEMPTS) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, retryDelayMs * attempt)
+          );
+        }
+      }
+    }
+
+    await this.staging.delete(key).catch(() => {
+      // A leftover staged file is harmless and replaced on the next write
+    });
+    this.options.onSettled?.(key, failure);
+  }
+}
@@ -0,0 +1,4 @@
+import { version } from '../../package.json';
+
+// The server is bundled with the action, so its version is the action's
+export const SERVER_VERSION: string = version;
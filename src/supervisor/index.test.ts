@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Supervisor, SupervisorOptions } from './index';
+import { createLogger } from '../server/logger';
+import { SupervisorState } from './state';
+
+// Exits with code 7 the first `CRASHES` times it runs, then stays up and
+// records whether it was told to resume the cache stats
+const FLAKY_SERVER = `
+const fs = require('fs');
+const file = process.env.COUNTER_FILE;
+const runs = (fs.existsSync(file) ? Number(fs.readFileSync(file, 'utf8')) : 0) + 1;
+fs.writeFileSync(file, String(runs));
+if (runs <= Number(process.env.CRASHES)) process.exit(7);
+fs.writeFileSync(file + '.resume', process.env.RESUME_CACHE_STATS ?? '');
+setInterval(() => {}, 1000);
+`;
+
+function readText(file: string): string {
+  try {
+    return readFileSync(file, 'utf8');
+  } catch {
+    return '';
+  }
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('supervisor - Cache Server Supervisor', () => {
+  let tempDir: string;
+  let stateFile: string;
+  let logLines: string[];
+  let supervisor: Supervisor | undefined;
+
+  function createSupervisor(crashes: number): Supervisor {
+    const options: SupervisorOptions = {
+      command: process.execPath,
+      args: ['-e', FLAKY_SERVER],
+      env: {
+        ...process.env,
+        COUNTER_FILE: path.join(tempDir, 'runs'),
+        CRASHES: String(crashes),
+      },
+      stateFile,
+      logger: createLogger('info', (line) => logLines.push(line)),
+      initialBackoffMs: 10,
+      maxBackoffMs: 20,
+    };
+    supervisor = new Supervisor(options);
+    return supervisor;
+  }
+
+  function readState(): SupervisorState {
+    return JSON.parse(readFileSync(stateFile, 'utf8')) as SupervisorState;
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-supervisor-'));
+    stateFile = path.join(tempDir, 'supervisor-state.json');
+    logLines = [];
+  });
+
+  afterEach(() => {
+    supervisor?.stop();
+    if (supervisor?.serverPid) {
+      try {
+        process.kill(supervisor.serverPid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }
+    supervisor = undefined;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should exit with the server exit code when it crashes during startup', async () => {
+    const supervisor = createSupervisor(1);
+
+    supervisor.start();
+
+    expect(await supervisor.done).toBe(7);
+    expect(readState().restarts).toEqual([]);
+  });
+
+  it('should restart a crashed server once armed', async () => {
+    const supervisor = createSupervisor(2);
+
+    supervisor.arm();
+    supervisor.start();
+    await waitFor(() => readText(path.join(tempDir, 'runs.resume')) === 'true');
+
+    const state = readState();
+    expect(state.serverPid).toBe(supervisor.serverPid);
+    expect(state.restarts).toEqual([
+      { time: expect.any(Number), code: 7, signal: null },
+      { time: expect.any(Number), code: 7, signal: null },
+    ]);
+    expect(logLines.join('')).toContain(
+      'Cache server exited with code 7, restarting in 10ms'
+    );
+    expect(logLines.join('')).toContain(
+      'Cache server exited with code 7, restarting in 20ms'
+    );
+  });
+
+  it('should not restart after being stopped', async () => {
+    const supervisor = createSupervisor(0);
+
+    supervisor.arm();
+    supervisor.start();
+    await waitFor(() => supervisor.serverPid !== undefined);
+    const serverPid = supervisor.serverPid!;
+    supervisor.stop();
+    process.kill(serverPid, 'SIGKILL');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(await supervisor.done).toBe(0);
+    expect(supervisor.serverPid).toBe(serverPid);
+    expect(readState().restarts).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createLogger, Logger, serializeError } from '../server/logger';
+import {
+  describeExit,
+  ServerExit,
+  SUPERVISOR_STATE_FILE,
+  SupervisorState,
+  writeSupervisorStateSync,
+} from './state';
+import path from 'path';
+
+// ncc bundles this next to the server as dist/start/supervisor
+const SERVER_ENTRYPOINT = path.join(__dirname, '..', 'server', 'index.js');
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+// A server that stayed up this long is considered healthy again
+const STABLE_AFTER_MS = 60000;
+
+export interface SupervisorOptions {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  stateFile: string;
+  logger: Logger;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+/**
+ * Runs the cache server as a child process and restarts it on the same port
+ * and token when it crashes. Restarts only begin once armed: until then the
+ * start step is still waiting for readiness and should see the failure.
+ */
+export class Supervisor {
+  /** Resolves with the exit code the supervisor process should exit with */
+  readonly done: Promise<number>;
+
+  private readonly state: SupervisorState = { restarts: [] };
+  private child: ChildProcess | undefined;
+  private startedAt = 0;
+  private consecutiveFailures = 0;
+  private restartTimer: NodeJS.Timeout | undefined;
+  private armed = false;
+  private stopped = false;
+  private resolveDone: (code: number) => void = () => undefined;
+
+  constructor(private readonly options: SupervisorOptions) {
+    this.done = new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  get serverPid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  start(): void {
+    this.spawnServer(false);
+  }
+
+  arm(): void {
+    this.armed = true;
+    this.options.logger.info('Supervisor armed, crashed servers will restart');
+  }
+
+  /** Stops supervising; the running server is left for the caller to stop. */
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.restartTimer);
+    this.resolveDone(0);
+  }
+
+  private spawnServer(restart: boolean): void {
+    const child = spawn(this.options.command, this.options.args, {
+      stdio: 'inherit',
+      env: {
+        ...this.options.env,
+        ...(restart && { RESUME_CACHE_STATS: 'true' }),
+      },
+    });
+    this.child = child;
+    this.startedAt = Date.now();
+    this.state.serverPid = child.pid;
+    this.persist();
+
+    child.on('error', (error) => {
+      this.options.logger.error(
+        'Could not start the cache server',
+        serializeError(error)
+      );
+    });
+    child.on('exit', (code, signal) => {
+      this.onExit({ time: Date.now(), code, signal });
+    });
+  }
+
+  private onExit(exit: ServerExit): void {
+    if (this.stopped) {
+      return;
+    }
+    if (!this.armed) {
+      this.options.logger.fatal(
+        `Cache server exited with ${describeExit(exit)} during startup`
+      );
+      this.resolveDone(exit.code ?? 1);
+      return;
+    }
+
+    if (exit.time - this.startedAt >= STABLE_AFTER_MS) {
+      this.consecutiveFailures = 0;
+    }
+    const initial = this.options.initialBackoffMs ?? INITIAL_BACKOFF_MS;
+    const delay = Math.min(
+      initial * 2 ** this.consecutiveFailures,
+      this.options.maxBackoffMs ?? MAX_BACKOFF_MS
+    );
+    this.consecutiveFailures += 1;
+    this.state.restarts.push(exit);
+    this.persist();
+
+    this.options.logger.warn(
+      `Cache server exited with ${describeExit(exit)}, restarting in ${delay}ms`,
+      { restarts: this.state.restarts.length }
+    );
+    this.restartTimer = setTimeout(() => this.spawnServer(true), delay);
+  }
+
+  private persist(): void {
+    try {
+      writeSupervisorStateSync(this.options.stateFile, this.state);
+    } catch (error) {
+      this.options.logger.error(
+        'Could not persist supervisor state',
+        serializeError(error)
+      );
+    }
+  }
+}
+
+// Only run main if this module is executed directly (not imported for testing)
+if (require.main === module) {
+  const supervisor = new Supervisor({
+    command: process.execPath,
+    args: [SERVER_ENTRYPOINT],
+    env: process.env,
+    stateFile: SUPERVISOR_STATE_FILE,
+    logger: createLogger(),
+  });
+
+  // The start step signals readiness with SIGUSR2 and the post step stops
+  // supervision with SIGTERM before shutting the server down itself
+  process.on('SIGUSR2', () => supervisor.arm());
+  process.on('SIGTERM', () => supervisor.stop());
+  process.on('SIGINT', () => supervisor.stop());
+
+  supervisor.start();
+  void supervisor.done.then((code) => process.exit(code));
+}
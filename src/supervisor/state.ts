@@ -0,0 +1,43 @@
+import { promises as fs, renameSync, writeFileSync } from 'fs';
+import { LOG_DIR } from '../server-logs';
+
+export const SUPERVISOR_STATE_FILE = `${LOG_DIR}/supervisor-state.json`;
+
+export interface ServerExit {
+  time: number;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+export interface SupervisorState {
+  /** PID of the cache server currently being supervised */
+  serverPid?: number;
+  restarts: ServerExit[];
+}
+
+export function describeExit({ code, signal }: ServerExit): string {
+  return code === null ? `signal ${signal}` : `code ${code}`;
+}
+
+export async function readSupervisorState(
+  file: string = SUPERVISOR_STATE_FILE
+): Promise<SupervisorState | undefined> {
+  try {
+    const content = await fs.readFile(file, 'utf8');
+    return {
+      restarts: [],
+      ...(JSON.parse(content) as Partial<SupervisorState>),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeSupervisorStateSync(
+  file: string,
+  state: SupervisorState
+): void {
+  const tmpFile = `${file}.tmp`;
+  writeFileSync(tmpFile, JSON.stringify(state));
+  renameSync(tmpFile, file);
+}
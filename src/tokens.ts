@@ -0,0 +1,21 @@
+import { createHmac } from 'crypto';
+import { z } from 'zod';
+
+export const TOKEN_SCOPES = ['read-only', 'read-write'] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// Tokens travel in the Authorization header, so no whitespace
+export const TokenSchema = z.string().regex(/^[\x21-\x7e]{16,}$/, {
+  message: 'must be at least 16 printable characters without spaces',
+});
+
+/**
+ * Derives the read-only token from the read-write one, so jobs sharing a
+ * token input also share the read-only token.
+ */
+export function deriveReadOnlyToken(token: string): string {
+  return createHmac('sha256', token)
+    .update('cache-rocket-read-only')
+    .digest('hex');
+}
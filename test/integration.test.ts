@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as core from '@actions/core';
+import { promises as fs } from 'fs';
 import { startCacheServer } from '../src/launch-server';
 import { cleanupCacheServer } from '../src/cleanup-server';
 
@@ -8,15 +9,28 @@ vi.mock('@actions/core');
 vi.mock('child_process');
 vi.mock('fs', () => ({
   promises: {
+    access: vi.fn().mockResolvedValue(undefined),
     mkdir: vi.fn().mockResolvedValue(undefined),
     readFile: vi.fn().mockResolvedValue(''),
+    open: vi.fn(),
+    writeFile: vi.fn(),
   },
 }));
 vi.mock('portfinder');
-vi.mock('wait-port');
-vi.mock('crypto');
+vi.mock('../src/readiness');
+// The repository config file is covered by its own tests
+vi.mock('../src/config-file', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/config-file')>()),
+  loadConfigFile: vi.fn().mockResolvedValue(undefined),
+}));
+// Only token generation is mocked; the read-only token is derived for real
+vi.mock('crypto', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('crypto')>()),
+  randomBytes: vi.fn(),
+}));
 
 const mockCore = vi.mocked(core);
+const mockFs = vi.mocked(fs);
 
 describe('Integration Tests - Full Workflow', () => {
   beforeEach(() => {
@@ -29,12 +43,29 @@ describe('Integration Tests - Full Workflow', () => {
     mockCore.saveState = vi.fn();
     mockCore.getState = vi.fn();
     mockCore.setFailed = vi.fn();
+    mockCore.warning = vi.fn();
     mockCore.debug = vi.fn();
     mockCore.startGroup = vi.fn();
     mockCore.endGroup = vi.fn();
+
+    mockFs.access = vi.fn().mockResolvedValue(undefined);
+    mockFs.writeFile = vi.fn().mockResolvedValue(undefined);
+    mockFs.open = vi.fn().mockResolvedValue({ fd: 3, close: vi.fn() });
+    vi.spyOn(process, 'kill').mockReturnValue(true);
+
+    // Credentials the provider preflight checks look for
+    vi.stubEnv('AWS_ACCESS_KEY_ID', 'AKIAEXAMPLE');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'secret');
+    vi.stubEnv('AWS_REGION', 'us-east-1');
+    vi.stubEnv('GOOGLE_APPLICATION_CREDENTIALS', '/tmp/gcp-key.json');
+    vi.stubEnv(
+      'AZURE_STORAGE_CONNECTION_STRING',
+      'DefaultEndpointsProtocol=https;AccountName=account'
+    );
   });
 
   afterEach(() => {
+    vi.unstubAllEnvs();
     vi.restoreAllMocks();
   });
 
@@ -49,13 +80,18 @@ describe('Integration Tests - Full Workflow', () => {
     // Mock successful start
     const { spawn } = await import('child_process');
     const { default: portfinder } = await import('portfinder');
-    const { default: waitPort } = await import('wait-port');
+    const { waitForServerReady } = await import('../src/readiness');
     const { randomBytes } = await import('crypto');
 
     vi.mocked(portfinder.getPortPromise).mockResolvedValue(4000);
     vi.mocked(randomBytes).mockReturnValue(Buffer.alloc(32) as any);
-    vi.mocked(waitPort).mockResolvedValue({ open: true, ipVersion: 4 });
+    vi.mocked(waitForServerReady).mockResolvedValue(undefined);
     vi.mocked(spawn).mockReturnValue({ pid: 54321, unref: vi.fn() } as any);
+    mockFs.readFile.mockImplementation(async (file) =>
+      file === 'logs/supervisor-state.json'
+        ? JSON.stringify({ serverPid: 54322, restarts: [] })
+        : ''
+    );
 
     // Run start action
     await startCacheServer();
@@ -80,26 +116,37 @@ describe('Integration Tests - Full Workflow', () => {
     expect(mockCore.info).toHaveBeenCalledWith('   Storage Provider: s3');
     expect(mockCore.info).toHaveBeenCalledWith('   Storage Path: my-s3-bucket');
 
-    expect(mockCore.saveState).toHaveBeenCalledWith('serverPid', '54321');
+    expect(mockCore.saveState).toHaveBeenCalledWith('serverPid', '54322');
+    expect(mockCore.saveState).toHaveBeenCalledWith('supervisorPid', '54321');
     expect(mockCore.saveState).toHaveBeenCalledWith('serverPort', '4000');
 
     // Clear mocks for post action
     vi.clearAllMocks();
-    mockCore.getState.mockReturnValue('54321');
+    mockCore.getState.mockImplementation(
+      (name: string) =>
+        ({ serverPid: '54322', supervisorPid: '54321' })[name] ?? ''
+    );
 
-    // Mock successful cleanup
+    // Mock successful cleanup; the supervisor exits as soon as it is signalled
     const originalKill = process.kill;
-    const mockKill = vi.fn().mockReturnValue(true);
+    const mockKill = vi.fn((_pid: number, signal?: string | number) => {
+      if (signal === 0) {
+        throw new Error('ESRCH');
+      }
+      return true;
+    });
     process.kill = mockKill as any;
 
     // Run post action
     await cleanupCacheServer();
 
     // Verify post action behavior
-    expect(mockCore.getState).toHaveBeenCalledWith('serverPid');
+    expect(mockCore.getState).toHaveBeenCalledWith('supervisorPid');
     expect(mockKill).toHaveBeenCalledWith(54321, 'SIGTERM');
+    // The server runs in the supervisor's process group
+    expect(mockKill).toHaveBeenCalledWith(-54321, 'SIGTERM');
     expect(mockCore.info).toHaveBeenCalledWith(
-      '✅ Turborepo Remote Cache Server stopped (PID: 54321)'
+      '✅ Turborepo Remote Cache Server stopped (PID: 54322)'
     );
 
     // Restore process.kill
@@ -113,12 +160,12 @@ describe('Integration Tests - Full Workflow', () => {
     // Mock successful minimal setup
     const { spawn } = await import('child_process');
     const { default: portfinder } = await import('portfinder');
-    const { default: waitPort } = await import('wait-port');
+    const { waitForServerReady } = await import('../src/readiness');
     const { randomBytes } = await import('crypto');
 
     vi.mocked(portfinder.getPortPromise).mockResolvedValue(3001);
     vi.mocked(randomBytes).mockReturnValue(Buffer.alloc(32) as any);
-    vi.mocked(waitPort).mockResolvedValue({ open: true, ipVersion: 4 });
+    vi.mocked(waitForServerReady).mockResolvedValue(undefined);
     vi.mocked(spawn).mockReturnValue({ pid: 11111, unref: vi.fn() } as any);
 
     await startCacheServer();
@@ -138,23 +185,33 @@ describe('Integration Tests - Full Workflow', () => {
 
   it('should handle error cascade from start to post', async () => {
     // Configure inputs
-    mockCore.getInput.mockReturnValue('gcs');
+    mockCore.getInput.mockImplementation(
+      (name: string) =>
+        ({
+          'storage-provider': 'google-cloud-storage',
+          'storage-path': 'gcs-bucket',
+        })[name] ?? ''
+    );
 
     // Mock successful port finding but port failure to open
     const { default: portfinder } = await import('portfinder');
-    const { default: waitPort } = await import('wait-port');
+    const { waitForServerReady } = await import('../src/readiness');
     const { randomBytes } = await import('crypto');
     const { spawn } = await import('child_process');
 
     vi.mocked(portfinder.getPortPromise).mockResolvedValue(4001);
     vi.mocked(randomBytes).mockReturnValue(Buffer.alloc(32) as any);
     vi.mocked(spawn).mockReturnValue({ pid: 99999, unref: vi.fn() } as any);
-    vi.mocked(waitPort).mockResolvedValue({ open: false, ipVersion: 4 });
+    vi.mocked(waitForServerReady).mockRejectedValue(
+      new Error(
+        'Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:4001'
+      )
+    );
     await startCacheServer();
 
     // Should fail start action
     expect(mockCore.setFailed).toHaveBeenCalledWith(
-      'Failed to start Turborepo Remote Cache Server: Port 4001 did not open within 30 seconds'
+      'Failed to start Turborepo Remote Cache Server: Cache server was not ready within 30 seconds: connect ECONNREFUSED 127.0.0.1:4001'
     );
 
     // Clear and setup for post action with no PID (because start failed)
@@ -177,12 +234,12 @@ describe('Integration Tests - Full Workflow', () => {
 
     const { spawn } = await import('child_process');
     const { default: portfinder } = await import('portfinder');
-    const { default: waitPort } = await import('wait-port');
+    const { waitForServerReady } = await import('../src/readiness');
     const { randomBytes } = await import('crypto');
 
     vi.mocked(portfinder.getPortPromise).mockResolvedValue(5000);
     vi.mocked(randomBytes).mockReturnValue(Buffer.alloc(32) as any);
-    vi.mocked(waitPort).mockResolvedValue({ open: true, ipVersion: 4 });
+    vi.mocked(waitForServerReady).mockResolvedValue(undefined);
     vi.mocked(spawn).mockReturnValue({ pid: 99999, unref: vi.fn() } as any);
 
     await startCacheServer();
@@ -208,12 +265,12 @@ describe('Integration Tests - Full Workflow', () => {
 
       const { spawn } = await import('child_process');
       const { default: portfinder } = await import('portfinder');
-      const { default: waitPort } = await import('wait-port');
+      const { waitForServerReady } = await import('../src/readiness');
       const { randomBytes } = await import('crypto');
 
       vi.mocked(portfinder.getPortPromise).mockResolvedValue(6000);
       vi.mocked(randomBytes).mockReturnValue(Buffer.alloc(32) as any);
-      vi.mocked(waitPort).mockResolvedValue({ open: true, ipVersion: 4 });
+      vi.mocked(waitForServerReady).mockResolvedValue(undefined);
 
       const mockSpawn = vi
         .mocked(spawn)
@@ -223,8 +280,8 @@ describe('Integration Tests - Full Workflow', () => {
 
       // Verify provider-specific environment variables are passed
       expect(mockSpawn).toHaveBeenCalledWith(
-        'npx',
-        ['turborepo-remote-cache'],
+        process.execPath,
+        [expect.stringMatching(/supervisor[\\/]index\.js$/)],
         expect.objectContaining({
           env: expect.objectContaining({
             STORAGE_PROVIDER: provider,
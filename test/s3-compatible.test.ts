@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { CacheStatsRecorder } from '../src/cache-stats';
+import { createCacheServer } from '../src/server/app';
+import { createLogger } from '../src/server/logger';
+import { createStorage } from '../src/server/storage';
+import { pruneArtifacts } from '../src/prune';
+
+const BUCKET = 'turbo';
+const TOKEN = 'test-token';
+
+interface StoredObject {
+  body: Buffer;
+  metadata: Record<string, string>;
+  lastModified: Date;
+}
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  authorization: string;
+}
+
+/**
+ * A minimal path-style S3 API over plain HTTP, covering the calls the S3
+ * provider makes, as MinIO, R2 or Ceph would answer them.
+ */
+function createS3StandIn() {
+  const objects = new Map<string, StoredObject>();
+  const requests: RecordedRequest[] = [];
+
+  const notFound = (res: ServerResponse, key: string) => {
+    res.writeHead(404, { 'content-type': 'application/xml' });
+    res.end(
+      `<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message><Key>${key}</Key></Error>`
+    );
+  };
+
+  const list = (res: ServerResponse, prefix: string) => {
+    const contents = [...objects.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([key, object]) =>
+          `<Contents><Key>${key}</Key><LastModified>${object.lastModified.toISOString()}</LastModified><Size>${object.body.length}</Size></Contents>`
+      );
+    res.writeHead(200, { 'content-type': 'application/xml' });
+    res.end(
+      `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${BUCKET}</Name><Prefix>${prefix}</Prefix><KeyCount>${contents.length}</KeyCount><IsTruncated>false</IsTruncated>${contents.join('')}</ListBucketResult>`
+    );
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://s3.local');
+    requests.push({
+      method: req.method ?? '',
+      path: url.pathname,
+      query: url.searchParams,
+      authorization: req.headers.authorization ?? '',
+    });
+
+    const [, bucket, ...rest] = url.pathname.split('/');
+    const key = decodeURIComponent(rest.join('/'));
+    if (bucket !== BUCKET) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!key && req.method === 'GET' && url.searchParams.get('list-type')) {
+      list(res, url.searchParams.get('prefix') ?? '');
+      return;
+    }
+
+    const object = objects.get(key);
+    switch (req.method) {
+      case 'PUT': {
+        const copySource = req.headers['x-amz-copy-source'];
+        if (typeof copySource === 'string') {
+          const source = objects.get(
+            decodeURIComponent(copySource.replace(/^\/?[^/]+\//, ''))
+          );
+          if (!source) {
+            notFound(res, key);
+            return;
+          }
+          const lastModified = new Date();
+          objects.set(key, { ...source, lastModified });
+          res.writeHead(200, { 'content-type': 'application/xml' });
+          res.end(
+            `<?xml version="1.0" encoding="UTF-8"?><CopyObjectResult><ETag>"stand-in"</ETag><LastModified>${lastModified.toISOString()}</LastModified></CopyObjectResult>`
+          );
+          return;
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk as Buffer);
+        }
+        const metadata: Record<string, string> = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (name.startsWith('x-amz-meta-') && typeof value === 'string') {
+            metadata[name.slice('x-amz-meta-'.length)] = value;
+          }
+        }
+        objects.set(key, {
+          body: Buffer.concat(chunks),
+          metadata,
+          lastModified: new Date(),
+        });
+        res.writeHead(200, { etag: '"stand-in"' }).end();
+        return;
+      }
+      case 'GET':
+      case 'HEAD': {
+        if (!object) {
+          notFound(res, key);
+          return;
+        }
+        res.writeHead(200, {
+          'content-type': 'application/octet-stream',
+          'content-length': object.body.length,
+          'last-modified': object.lastModified.toUTCString(),
+          ...Object.fromEntries(
+            Object.entries(object.metadata).map(([name, value]) => [
+              `x-amz-meta-${name}`,
+              value,
+            ])
+          ),
+        });
+        res.end(req.method === 'GET' ? object.body : undefined);
+        return;
+      }
+      case 'DELETE':
+        objects.delete(key);
+        res.writeHead(204).end();
+        return;
+      default:
+        res.writeHead(405).end();
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(() => res.writeHead(500).end());
+  });
+  return { server, objects, requests };
+}
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve())
+  );
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('Integration Tests - S3-Compatible Storage', () => {
+  let standIn: ReturnType<typeof createS3StandIn>;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    vi.stubEnv('AWS_ACCESS_KEY_ID', 'minioadmin');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'minioadmin');
+    vi.stubEnv('AWS_REGION', '');
+    vi.stubEnv('AWS_DEFAULT_REGION', '');
+    standIn = createS3StandIn();
+    endpoint = await listen(standIn.server);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  function createS3Storage(prefix?: string) {
+    return createStorage({
+      STORAGE_PROVIDER: 's3',
+      STORAGE_PATH: BUCKET,
+      S3_ENDPOINT: endpoint,
+      S3_REGION: 'auto',
+      S3_FORCE_PATH_STYLE: 'true',
+      ...(prefix && { STORAGE_PREFIX: prefix }),
+    });
+  }
+
+  it('should round-trip artifacts with path-style requests signed for the region', async () => {
+    const storage = createS3Storage();
+
+    await storage.write('ci/abc', Readable.from(['hello world']), {
+      duration: '12',
+    });
+    const artifact = await storage.read('ci/abc');
+
+    expect(await storage.exists('ci/abc')).toBe(true);
+    expect(artifact?.size).toBe(11);
+    expect(artifact?.metadata).toEqual({ duration: '12' });
+    expect(await readAll(artifact!.body)).toBe('hello world');
+    expect(standIn.requests[0]).toMatchObject({
+      method: 'PUT',
+      path: `/${BUCKET}/ci/abc`,
+    });
+    expect(standIn.requests[0]?.authorization).toMatch(
+      /Credential=minioadmin\/\d{8}\/auto\/s3\/aws4_request/
+    );
+  });
+
+  it('should report missing artifacts', async () => {
+    const storage = createS3Storage();
+
+    expect(await storage.exists('ci/missing')).toBe(false);
+    expect(await storage.read('ci/missing')).toBeUndefined();
+  });
+
+  it('should keep artifacts below the storage prefix and prune them there', async () => {
+    const storage = createS3Storage('shared/turbo');
+    standIn.objects.set('ci/unrelated', {
+      body: Buffer.from('other'),
+      metadata: {},
+      lastModified: new Date(0),
+    });
+
+    await storage.write('ci/abc', Readable.from(['hello']), {});
+    standIn.objects.get('shared/turbo/ci/abc')!.lastModified = new Date(0);
+
+    expect([...standIn.objects.keys()]).toEqual([
+      'ci/unrelated',
+      'shared/turbo/ci/abc',
+    ]);
+    expect(
+      await pruneArtifacts(storage, { prefix: 'ci/', retentionDays: 1 })
+    ).toEqual({ artifacts: 1, bytes: 5 });
+    expect([...standIn.objects.keys()]).toEqual(['ci/unrelated']);
+    expect(
+      standIn.requests.some(
+        ({ query }) => query.get('prefix') === 'shared/turbo/ci/'
+      )
+    ).toBe(true);
+  });
+
+  it('should record reads so pruning keeps artifacts still in use', async () => {
+    const storage = createS3Storage();
+    await storage.write('ci/read', Readable.from(['hello']), { tag: 't' });
+    await storage.write('ci/unread', Readable.from(['hello']), {});
+    for (const object of standIn.objects.values()) {
+      object.lastModified = new Date(0);
+    }
+
+    await readAll((await storage.read('ci/read'))!.body);
+    await readAll((await storage.read('ci/read'))!.body);
+
+    const copies = () =>
+      standIn.requests.filter(
+        ({ method, path }) => method === 'PUT' && path === `/${BUCKET}/ci/read`
+      );
+    // Written once, then copied onto itself once for both reads
+    await vi.waitFor(() => expect(copies()).toHaveLength(2));
+    expect(standIn.objects.get('ci/read')?.metadata).toEqual({ tag: 't' });
+    expect(
+      await pruneArtifacts(storage, { prefix: 'ci/', retentionDays: 1 })
+    ).toEqual({ artifacts: 1, bytes: 5 });
+    expect([...standIn.objects.keys()]).toEqual(['ci/read']);
+  });
+
+  it('should serve turbo through the cache server end to end', async () => {
+    const statsDir = mkdtempSync(path.join(tmpdir(), 'cache-rocket-'));
+    const server = createCacheServer({
+      token: TOKEN,
+      storage: createS3Storage('turbo'),
+      recorder: new CacheStatsRecorder(path.join(statsDir, 'stats.json')),
+      logger: createLogger('error', () => {}),
+    });
+    const baseUrl = await listen(server);
+    const request = (urlPath: string, init: RequestInit = {}) =>
+      fetch(`${baseUrl}${urlPath}`, {
+        ...init,
+        headers: { authorization: `Bearer ${TOKEN}`, ...init.headers },
+      });
+
+    try {
+      const put = await request('/v8/artifacts/abc123?teamId=ci', {
+        method: 'PUT',
+        headers: {
+          'content-type': 'application/octet-stream',
+          'x-artifact-duration': '42',
+        },
+        body: 'artifact',
+      });
+      const get = await request('/v8/artifacts/abc123?teamId=ci');
+      const miss = await request('/v8/artifacts/missing?teamId=ci');
+
+      expect(put.status).toBe(200);
+      expect(get.status).toBe(200);
+      expect(get.headers.get('x-artifact-duration')).toBe('42');
+      expect(await get.text()).toBe('artifact');
+      expect(miss.status).toBe(404);
+      expect(standIn.objects.has('turbo/ci/abc123')).toBe(true);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      rmSync(statsDir, { recursive: true, force: true });
+    }
+  });
+});